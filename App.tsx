@@ -1,12 +1,55 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { PlusCircle, List, PieChart, Trash2, Calendar, ChevronRight, ChevronLeft, Check, Download, Upload } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { Capacitor } from '@capacitor/core';
-import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
-import { Share } from '@capacitor/share';
-import { Expense, CategoryType, TransactionType } from './types';
-import { EXPENSE_CATEGORIES, INCOME_CATEGORIES, getCategoryConfig } from './constants';
+import { App as CapacitorApp } from '@capacitor/app';
+import { PlusCircle, List, PieChart, Calendar, ChevronRight, ChevronLeft, Check, Download, Upload, Settings as SettingsIcon, X, Repeat, Search, AlertTriangle, Lock, Receipt, Split } from 'lucide-react';
+import { Expense, CategoryType, TransactionType, Budget, CategoryDef, RecurringRule, RecurrenceFrequency, Account, BackupSettings, LockSettings, CurrencySettings, PeriodSettings, ReimbursementStatus } from './types';
+import { getCategoryConfig, getActiveCategories, remapCategory, CategoryIcon, AccountIcon, DEFAULT_ACCOUNT_ID } from './constants';
 import * as storage from './services/storageService';
+import { computeBudgetStatuses } from './services/budgetService';
+import { materializeRecurring, FREQUENCY_LABELS } from './services/recurringService';
+import { toDateKey, parseDateKey, endOfDay } from './services/dateService';
+import { getPeriod, shiftPeriod, getMonthOf } from './services/periodService';
+import { computeDailyTotals } from './services/calendarService';
+import { computeAccountBalances, computeRunningBalances, involvesAccount } from './services/accountService';
+import { ExportFormat, buildExportRows, toCsv, toXlsx, toJsonRecords } from './services/exportService';
+import { saveFile } from './services/fileService';
+import { ImportPlan, analyzeImport } from './services/importService';
+import { BackupData, runDailyBackup } from './services/backupService';
+import { EncryptedBackup, DecryptError, isEncryptedBackup, encryptBackup, decryptBackup } from './services/cryptoService';
+import { CURRENCIES, getCurrencySymbol, convertToBase } from './services/currencyService';
+import { parseMoney, formatCents, sumMoney, scaleMoney } from './services/moneyService';
+import { collectTags } from './services/tagService';
+import { validateSplits, primaryCategory } from './services/splitService';
+import { deleteAttachments, pruneAttachments } from './services/attachmentService';
+import {
+  REIMBURSEMENT_STATUS_LABELS, REIMBURSEMENT_STATUSES, filterPersonal, summarizeOutstanding, unlinkIncome
+} from './services/reimbursementService';
 import Statistics from './components/Statistics';
+import { getProgressColor } from './components/BudgetPanel';
+import Settings, { SettingsPage } from './components/Settings';
+import CategoryManager from './components/CategoryManager';
+import RecurringManager from './components/RecurringManager';
+import AccountManager from './components/AccountManager';
+import AccountFilter from './components/AccountFilter';
+import TransactionList from './components/TransactionList';
+import SearchView from './components/SearchView';
+import CsvImportWizard from './components/CsvImportWizard';
+import ExportDialog from './components/ExportDialog';
+import ImportReview from './components/ImportReview';
+import BackupManager from './components/BackupManager';
+import PassphrasePrompt from './components/PassphrasePrompt';
+import LockScreen from './components/LockScreen';
+import SecuritySettings from './components/SecuritySettings';
+import CurrencyManager from './components/CurrencyManager';
+import PeriodSettingsPage from './components/PeriodSettingsPage';
+import DayRecordsSheet from './components/DayRecordsSheet';
+import CalendarView from './components/CalendarView';
+import TagInput from './components/TagInput';
+import TagFilter from './components/TagFilter';
+import ReimbursementManager from './components/ReimbursementManager';
+import SplitEditor, { SplitDraft } from './components/SplitEditor';
+import ReceiptPicker from './components/ReceiptPicker';
+import ReceiptViewer from './components/ReceiptViewer';
 
 enum Tab {
   ADD = 'ADD',
@@ -17,126 +60,466 @@ enum Tab {
 export default function App() {
   const [activeTab, setActiveTab] = useState<Tab>(Tab.ADD);
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>(() => storage.getBudgets());
+  const [categories, setCategories] = useState<CategoryDef[]>(() => storage.getCategories());
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>(() => storage.getRecurringRules());
+  const [accounts, setAccounts] = useState<Account[]>(() => storage.getAccounts());
+  const [backupSettings, setBackupSettings] = useState<BackupSettings>(() => storage.getBackupSettings());
+  const [lockSettings, setLockSettings] = useState<LockSettings>(() => storage.getLockSettings());
+  const [currencySettings, setCurrencySettings] = useState<CurrencySettings>(() => storage.getCurrencySettings());
+  const [periodSettings, setPeriodSettings] = useState<PeriodSettings>(() => storage.getPeriodSettings());
+  // Locked at launch whenever a PIN is set
+  const [isLocked, setIsLocked] = useState(() => !!storage.getLockSettings().pinHash);
+  // PIN pad opened from the list to reveal hidden amounts
+  const [showUnlock, setShowUnlock] = useState(false);
+  const lastActivity = useRef(Date.now());
+  // Account shown in the list and statistics, null = all accounts
+  const [accountFilter, setAccountFilter] = useState<string | null>(null);
+  // Tag the list is narrowed to, null = all records
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [settingsPage, setSettingsPage] = useState<SettingsPage | null>(null);
+  const [showSearch, setShowSearch] = useState(false);
+  const [viewingReceipts, setViewingReceipts] = useState<{ ids: string[]; index: number } | null>(null);
+  // Day opened from a chart, YYYY-MM-DD
+  const [dayDetail, setDayDetail] = useState<string | null>(null);
+  // Bank/wallet statement being imported through the CSV wizard
+  const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [showExport, setShowExport] = useState(false);
+  // Validated JSON backup waiting for the user to resolve conflicts
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  // Encrypted backup waiting for its passphrase
+  const [encryptedImport, setEncryptedImport] = useState<EncryptedBackup | null>(null);
+  const [decryptError, setDecryptError] = useState<string | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
   
   // Form State
   const [transactionType, setTransactionType] = useState<TransactionType>('expense');
   const [amount, setAmount] = useState<string>('');
+  // Kept between entries like the date, so a trip's records default to the local currency
+  const [currency, setCurrency] = useState<string>(() => storage.getCurrencySettings().baseCurrency);
   const [selectedCategory, setSelectedCategory] = useState<CategoryType>('food');
+  // Category lines when one payment is split across categories, null = single category
+  const [splitLines, setSplitLines] = useState<SplitDraft[] | null>(null);
   const [note, setNote] = useState<string>('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [reimbursement, setReimbursement] = useState<ReimbursementStatus | null>(null);
+  const [attachments, setAttachments] = useState<string[]>([]); // receipt photo ids
+  const [selectedAccountId, setSelectedAccountId] = useState<string>(DEFAULT_ACCOUNT_ID);
+  // Transfer-only fields
+  const [toAccountId, setToAccountId] = useState<string>('');
+  const [fee, setFee] = useState<string>('');
+  // Id of the record being edited in the add form, null when adding a new one
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Recurrence for a new record; null = one-off
+  const [repeatFrequency, setRepeatFrequency] = useState<RecurrenceFrequency | null>(null);
+  const [repeatEndDate, setRepeatEndDate] = useState<string>('');
+  const [repeatCount, setRepeatCount] = useState<string>('');
   
   // Get today's date string in YYYY-MM-DD format local time
-  const getTodayStr = () => {
-    const now = new Date();
-    const year = now.getFullYear();
-    const month = String(now.getMonth() + 1).padStart(2, '0');
-    const day = String(now.getDate()).padStart(2, '0');
-    return `${year}-${month}-${day}`;
-  };
+  const getTodayStr = () => toDateKey(new Date());
 
   const [dateStr, setDateStr] = useState<string>(getTodayStr());
 
   // List View Date State
   const [listCurrentDate, setListCurrentDate] = useState(new Date());
+  // Records as a list, a month calendar or a year heatmap
+  const [listView, setListView] = useState<'list' | 'calendar' | 'heatmap'>('list');
+
+  // Records as last written to IndexedDB; null after a failed write, which makes the next save rewrite everything
+  const savedExpenses = useRef<Expense[] | null>(null);
+  // Nothing is written before the stored records are loaded, so a slow or failed load can't wipe them
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
   // Initial Load
   useEffect(() => {
-    const loaded = storage.getExpenses();
-    // Sort by date descending
-    setExpenses(loaded.sort((a, b) => b.date - a.date));
+    storage.loadExpenses()
+      .then(stored => {
+        savedExpenses.current = stored;
+        // Post any recurring occurrences that became due since the last visit
+        const generated = materializeRecurring(recurringRules, stored, new Date());
+        // Sort by date descending
+        setExpenses([...stored, ...generated].sort((a, b) => b.date - a.date));
+        setIsLoaded(true);
+      })
+      .catch(e => {
+        console.error('Failed to load expenses', e);
+        setStorageError(`读取数据失败：${e?.message || e}`);
+      });
   }, []);
 
+  useEffect(() => storage.onSaveError(message => setStorageError(`保存失败：${message}`)), []);
+
   // Save Effect
   useEffect(() => {
-    storage.saveExpenses(expenses);
-  }, [expenses]);
+    if (!isLoaded) return;
+    const prev = savedExpenses.current;
+    savedExpenses.current = expenses;
+    storage.saveExpenseChanges(prev, expenses).then(ok => {
+      if (!ok) savedExpenses.current = null;
+    });
+  }, [expenses, isLoaded]);
+
+  const handleRetrySave = () => {
+    setStorageError(null);
+    if (!isLoaded) {
+      window.location.reload();
+      return;
+    }
+    storage.saveExpenseChanges(null, expenses).then(ok => {
+      if (ok) savedExpenses.current = expenses;
+    });
+  };
+
+  useEffect(() => {
+    storage.saveBudgets(budgets);
+  }, [budgets]);
+
+  useEffect(() => {
+    storage.saveCategories(categories);
+  }, [categories]);
+
+  useEffect(() => {
+    storage.saveRecurringRules(recurringRules);
+  }, [recurringRules]);
+
+  useEffect(() => {
+    storage.saveAccounts(accounts);
+  }, [accounts]);
+
+  useEffect(() => {
+    storage.saveBackupSettings(backupSettings);
+  }, [backupSettings]);
+
+  useEffect(() => {
+    storage.saveLockSettings(lockSettings);
+  }, [lockSettings]);
+
+  useEffect(() => {
+    storage.saveCurrencySettings(currencySettings);
+  }, [currencySettings]);
+
+  useEffect(() => {
+    storage.savePeriodSettings(periodSettings);
+  }, [periodSettings]);
+
+  // Records in the base currency for totals, budgets, balances and statistics
+  const { baseExpenses, missingRates } = useMemo(() => {
+    const { converted, missing } = convertToBase(expenses, currencySettings);
+    return { baseExpenses: converted, missingRates: [...missing] };
+  }, [expenses, currencySettings]);
+  const baseSymbol = getCurrencySymbol(currencySettings.baseCurrency);
+  const allTags = useMemo(() => collectTags(expenses), [expenses]);
+  // Personal income and spending leave out reimbursed expenses and the income that paid them back
+  const personalExpenses = useMemo(() => filterPersonal(baseExpenses), [baseExpenses]);
+  const outstanding = useMemo(() => summarizeOutstanding(baseExpenses), [baseExpenses]);
+
+  // Auto-lock when the app goes to background and after the configured idle time
+  useEffect(() => {
+    if (!lockSettings.pinHash) return;
+    const lock = () => setIsLocked(true);
+    const touch = () => { lastActivity.current = Date.now(); };
+    const onVisibilityChange = () => { if (document.hidden) lock(); };
+
+    window.addEventListener('pointerdown', touch);
+    window.addEventListener('keydown', touch);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    const appListener = Capacitor.isNativePlatform()
+      ? CapacitorApp.addListener('appStateChange', ({ isActive }) => { if (!isActive) lock(); })
+      : null;
+    const idleTimer = lockSettings.idleMinutes > 0
+      ? setInterval(() => {
+          if (Date.now() - lastActivity.current >= lockSettings.idleMinutes * 60 * 1000) lock();
+        }, 10 * 1000)
+      : undefined;
+
+    return () => {
+      window.removeEventListener('pointerdown', touch);
+      window.removeEventListener('keydown', touch);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      appListener?.then(handle => handle.remove());
+      clearInterval(idleTimer);
+    };
+  }, [lockSettings.pinHash, lockSettings.idleMinutes]);
+
+  const handleUnlock = () => {
+    lastActivity.current = Date.now();
+    setIsLocked(false);
+    setShowUnlock(false);
+  };
+
+  const handleLockSettingsChange = (next: LockSettings) => {
+    // Setting, changing or removing the PIN happens while unlocked
+    if (next.pinHash !== lockSettings.pinHash) setIsLocked(false);
+    setLockSettings(next);
+  };
+
+  const amountsHidden = isLocked && !!lockSettings.pinHash && lockSettings.mode === 'amounts';
+
+  // Daily snapshot, taken once the stored records are loaded
+  useEffect(() => {
+    if (!isLoaded || !backupSettings.enabled) return;
+    runDailyBackup({ expenses, budgets, categories, recurringRules, accounts, currency: currencySettings, period: periodSettings }, backupSettings.keep, backupSettings.includeAttachments)
+      .catch(e => {
+        console.error('Automatic backup failed', e);
+        setStorageError(`自动备份失败：${e?.message || e}`);
+      });
+  }, [isLoaded, backupSettings.enabled]);
+
+  // Clear out receipt photos no record refers to any more, e.g. from a record that was never saved
+  useEffect(() => {
+    if (!isLoaded) return;
+    pruneAttachments(expenses).catch(e => console.error('Failed to clean up receipt photos', e));
+  }, [isLoaded]);
+
+  const handleRestore = (data: BackupData) => {
+    setExpenses([...data.expenses].sort((a, b) => b.date - a.date));
+    setBudgets(data.budgets);
+    setCategories(data.categories);
+    setRecurringRules(data.recurringRules);
+    setAccounts(data.accounts);
+    if (data.currency) setCurrencySettings(data.currency);
+    if (data.period) setPeriodSettings(data.period);
+    setAccountFilter(null);
+    setTagFilter(null);
+  };
+
+  // Budgets and opening balances carry no currency of their own and are read in the base
+  // currency, so they move to the new base at `rate` together with it
+  const handleBaseCurrencyChange = (baseCurrency: string, rate: number) => {
+    setCurrencySettings(prev => ({ ...prev, baseCurrency }));
+    setBudgets(prev => prev.map(b => ({ ...b, amount: scaleMoney(b.amount, rate) })));
+    setAccounts(prev => prev.map(a => ({ ...a, openingBalance: scaleMoney(a.openingBalance, rate) })));
+  };
+
+  const editingExpense = editingId ? expenses.find(e => e.id === editingId) : undefined;
+
+  // Keep the selected category valid when categories are archived or removed.
+  // An edited record may keep its archived category.
+  useEffect(() => {
+    if (editingExpense && editingExpense.category === selectedCategory && editingExpense.type === transactionType) return;
+    const active = getActiveCategories(categories, transactionType);
+    if (active.length > 0 && !active.some(c => c.id === selectedCategory)) {
+      setSelectedCategory(active[0].id);
+    }
+  }, [categories, transactionType, selectedCategory, editingExpense]);
+
+  // Same for the selected account
+  useEffect(() => {
+    if (editingExpense && editingExpense.accountId === selectedAccountId) return;
+    const active = accounts.filter(a => !a.archived);
+    if (active.length > 0 && !active.some(a => a.id === selectedAccountId)) {
+      setSelectedAccountId(active[0].id);
+    }
+  }, [accounts, selectedAccountId, editingExpense]);
 
   // Handle Type Toggle
   const handleTypeChange = (type: TransactionType) => {
+    if (type === transactionType) return;
     setTransactionType(type);
-    // Reset category to the first one of the new type
-    if (type === 'expense') {
-        setSelectedCategory(EXPENSE_CATEGORIES[0].id);
-    } else {
-        setSelectedCategory(INCOME_CATEGORIES[0].id);
+    // Map the category onto its counterpart of the new type
+    setSelectedCategory(remapCategory(selectedCategory, type, categories));
+    if (splitLines) {
+      setSplitLines(type === 'transfer' ? null : splitLines.map(line => ({ ...line, category: remapCategory(line.category, type, categories) })));
+    }
+    // Suggest a destination account different from the source
+    if (type === 'transfer' && (!toAccountId || toAccountId === selectedAccountId)) {
+      const other = accounts.find(a => !a.archived && a.id !== selectedAccountId);
+      setToAccountId(other ? other.id : '');
     }
   };
 
-  const handleAddExpense = () => {
-    if (!amount || parseFloat(amount) <= 0) return;
+  const resetForm = () => {
+    setAmount('');
+    setNote('');
+    setTags([]);
+    setSplitLines(null);
+    setReimbursement(null);
+    setAttachments([]);
+    setEditingId(null);
+    setFee('');
+    setRepeatFrequency(null);
+    setRepeatEndDate('');
+    setRepeatCount('');
+  };
 
-    // Parse selected date
+  const handleSaveExpense = () => {
+    if (!isFormValid) return;
+
+    // Parse selected date, keeping the edited record's time of day
     const [year, month, day] = dateStr.split('-').map(Number);
-    const expenseDate = new Date();
-    expenseDate.setFullYear(year);
-    expenseDate.setMonth(month - 1);
-    expenseDate.setDate(day);
-    
-    const newExpense: Expense = {
-      id: Date.now().toString(),
-      amount: parseFloat(amount),
+    const expenseDate = editingExpense ? new Date(editingExpense.date) : new Date();
+    expenseDate.setFullYear(year, month - 1, day);
+
+    const isTransfer = transactionType === 'transfer';
+    const feeCents = parseMoney(fee);
+    const splits = !isTransfer ? parsedSplits : null;
+    const fields = {
+      amount: parseMoney(amount)!,
+      currency,
       type: transactionType,
-      category: selectedCategory,
+      category: splits ? primaryCategory(splits) : selectedCategory,
+      splits: splits || undefined,
       note: note.trim(),
+      tags: tags.length > 0 ? tags : undefined,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      reimbursement: transactionType === 'expense' && reimbursement ? reimbursement : undefined,
+      // The linked income only survives while the record stays reimbursed
+      reimbursedBy: transactionType === 'expense' && reimbursement === 'reimbursed' ? editingExpense?.reimbursedBy : undefined,
       date: expenseDate.getTime(),
+      accountId: selectedAccountId,
+      toAccountId: isTransfer ? toAccountId : undefined,
+      fee: isTransfer && feeCents !== null && feeCents > 0 ? feeCents : undefined,
+    };
+
+    if (editingExpense) {
+      const removed = (editingExpense.attachments || []).filter(id => !attachments.includes(id));
+      deleteAttachments(removed).catch(e => console.error('Failed to delete receipt photos', e));
+      setExpenses(prev => prev
+        .map(e => e.id === editingExpense.id ? { ...e, ...fields } : e)
+        .sort((a, b) => b.date - a.date));
+      resetForm();
+      setActiveTab(Tab.LIST);
+      return;
+    }
+
+    if (repeatFrequency) {
+      // Recurring: store the rule and post whichever occurrences are already due
+      const count = parseInt(repeatCount, 10);
+      const rule: RecurringRule = {
+        id: Date.now().toString(),
+        amount: fields.amount,
+        currency: fields.currency,
+        type: fields.type,
+        category: fields.category,
+        splits: fields.splits,
+        note: fields.note,
+        tags: fields.tags,
+        accountId: fields.accountId,
+        toAccountId: fields.toAccountId,
+        fee: fields.fee,
+        frequency: repeatFrequency,
+        dayOfMonth: repeatFrequency === 'monthly' ? expenseDate.getDate() : undefined,
+        startDate: fields.date,
+        endDate: repeatEndDate ? endOfDay(parseDateKey(repeatEndDate)).getTime() : undefined,
+        count: count > 0 ? count : undefined,
+        skipped: [],
+      };
+      setRecurringRules(prev => [...prev, rule]);
+      setExpenses(prev => [...materializeRecurring([rule], prev, new Date()), ...prev].sort((a, b) => b.date - a.date));
+      resetForm();
+      return;
+    }
+
+    const newExpense: Expense = {
+      id: Date.now().toString(),
+      ...fields,
     };
 
     setExpenses(prev => [newExpense, ...prev].sort((a, b) => b.date - a.date));
     
     // Reset form
-    setAmount('');
-    setNote('');
+    resetForm();
     // Keep date as is for consecutive entries
   };
 
+  // Open an existing record in the add form
+  const handleEdit = (expense: Expense) => {
+    // Records can't be opened or removed while the lock hides amounts
+    if (amountsHidden) {
+      setShowUnlock(true);
+      return;
+    }
+    setEditingId(expense.id);
+    setTransactionType(expense.type);
+    setAmount(formatCents(expense.amount));
+    setCurrency(expense.currency);
+    setSelectedCategory(expense.category);
+    setSplitLines(expense.splits ? expense.splits.map(line => ({ category: line.category, amount: formatCents(line.amount) })) : null);
+    setNote(expense.note);
+    setTags(expense.tags || []);
+    setReimbursement(expense.reimbursement || null);
+    setAttachments(expense.attachments || []);
+    setSelectedAccountId(expense.accountId);
+    setToAccountId(expense.toAccountId || '');
+    setFee(expense.fee ? formatCents(expense.fee) : '');
+    setRepeatFrequency(null);
+    setDateStr(toDateKey(new Date(expense.date)));
+    setActiveTab(Tab.ADD);
+  };
+
+  const handleCancelEdit = () => {
+    // Photos added during the edit were never saved to the record
+    const added = attachments.filter(id => !editingExpense?.attachments?.includes(id));
+    deleteAttachments(added).catch(e => console.error('Failed to delete receipt photos', e));
+    resetForm();
+    setDateStr(getTodayStr());
+    setActiveTab(Tab.LIST);
+  };
+
   const handleDelete = (id: string) => {
-    if (confirm('确定删除这条记录吗?')) {
-      setExpenses(prev => prev.filter(e => e.id !== id));
+    if (amountsHidden) {
+      setShowUnlock(true);
+      return;
+    }
+    const target = expenses.find(e => e.id === id);
+    const isGenerated = !!(target?.recurringId && target.occurrence);
+    if (confirm(isGenerated ? '确定删除这条记录吗? 该周期的本次记录将被跳过' : '确定删除这条记录吗?')) {
+      if (isGenerated) {
+        // Remember the skip so the occurrence is not generated again on next launch
+        setRecurringRules(prev => prev.map(r =>
+          r.id === target!.recurringId ? { ...r, skipped: [...r.skipped, target!.occurrence!] } : r
+        ));
+      }
+      // Expenses paid back by a deleted income go back to waiting for their money
+      setExpenses(prev => unlinkIncome(prev.filter(e => e.id !== id), id));
+      deleteAttachments(target?.attachments || []).catch(e => console.error('Failed to delete receipt photos', e));
+      if (id === editingId) resetForm();
     }
   };
 
-  const navigateListMonth = (direction: number) => {
-    const newDate = new Date(listCurrentDate);
-    newDate.setMonth(newDate.getMonth() + direction);
-    setListCurrentDate(newDate);
+  // The heatmap pages by year, the list and calendar by month
+  const navigateListMonth = (direction: -1 | 1) => {
+    const range = listView === 'heatmap' ? 'year' : 'month';
+    const current = getPeriod(range, listCurrentDate, periodSettings);
+    setListCurrentDate(shiftPeriod(range, current, direction, periodSettings).start);
+  };
+
+  // New record on a day picked in the calendar; an edit in progress is dropped
+  const handleAddOnDate = (dateKey: string) => {
+    if (editingId) handleCancelEdit();
+    setDateStr(dateKey);
+    setDayDetail(null);
+    setActiveTab(Tab.ADD);
   };
 
   // Export Data
-  const handleExport = async () => {
-    const fileName = `simple-bookkeeping-backup-${getTodayStr()}.json`;
-    const dataStr = JSON.stringify(expenses, null, 2);
-
-    if (Capacitor.isNativePlatform()) {
-      // Native App Logic (Android/iOS)
-      try {
-        // 1. Write file to cache directory
-        const result = await Filesystem.writeFile({
-          path: fileName,
-          data: dataStr,
-          directory: Directory.Cache,
-          encoding: Encoding.UTF8,
-        });
-
-        // 2. Share the file
-        await Share.share({
-          title: '备份数据',
-          text: '这是我的极简记账备份数据',
-          url: result.uri,
-          dialogTitle: '导出备份文件',
-        });
-      } catch (e) {
-        console.error('Export failed', e);
-        alert('导出失败: ' + (e as any).message);
+  const handleExport = async (format: ExportFormat, records: Expense[], passphrase?: string) => {
+    const baseName = `simple-bookkeeping-${format === 'json' ? 'backup' : 'export'}-${getTodayStr()}`;
+    try {
+      if (format === 'json' && passphrase) {
+        const encrypted = await encryptBackup(JSON.stringify(toJsonRecords(records)), passphrase);
+        await saveFile(`${baseName}.encrypted.json`, JSON.stringify(encrypted, null, 2), 'application/json', '导出加密备份');
+      } else if (format === 'json') {
+        await saveFile(`${baseName}.json`, JSON.stringify(toJsonRecords(records), null, 2), 'application/json', '导出备份文件');
+      } else {
+        const rows = buildExportRows(records, categories, accounts);
+        if (format === 'csv') {
+          await saveFile(`${baseName}.csv`, toCsv(rows), 'text/csv;charset=utf-8', '导出账目');
+        } else {
+          await saveFile(
+            `${baseName}.xlsx`,
+            toXlsx(rows),
+            'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+            '导出账目'
+          );
+        }
       }
-    } else {
-      // Web Logic
-      const blob = new Blob([dataStr], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.download = fileName;
-      link.href = url;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
+      setShowExport(false);
+    } catch (e) {
+      console.error('Export failed', e);
+      alert('导出失败: ' + (e as any).message);
     }
   };
 
@@ -145,6 +528,12 @@ export default function App() {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    if (file.name.toLowerCase().endsWith('.csv')) {
+        setCsvFile(file);
+        event.target.value = '';
+        return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
         try {
@@ -152,42 +541,12 @@ export default function App() {
             if (typeof result !== 'string') return;
             
             const importedData = JSON.parse(result);
-            if (!Array.isArray(importedData)) {
-                alert('文件格式错误：必须是数组格式');
+            if (isEncryptedBackup(importedData)) {
+                setDecryptError(null);
+                setEncryptedImport(importedData);
                 return;
             }
-
-            // Simple validation
-            if (importedData.length > 0 && (!importedData[0].id || !importedData[0].amount)) {
-                 alert('文件格式错误：无法识别的记账数据');
-                 return;
-            }
-
-            // Merge Logic: Deduplicate by ID
-            const currentIds = new Set(expenses.map(e => e.id));
-            let addedCount = 0;
-            const newExpenses = [...expenses];
-            
-            importedData.forEach((item: any) => {
-                if (!currentIds.has(item.id)) {
-                    // Ensure normalized fields
-                    const normalizedItem: Expense = {
-                        ...item,
-                        type: item.type || 'expense'
-                    };
-                    newExpenses.push(normalizedItem);
-                    currentIds.add(item.id);
-                    addedCount++;
-                }
-            });
-
-            if (addedCount > 0) {
-                setExpenses(newExpenses.sort((a, b) => b.date - a.date));
-                alert(`成功导入 ${addedCount} 条记录`);
-            } else {
-                alert('没有发现新记录 (ID重复)');
-            }
-
+            reviewImport(importedData);
         } catch (error) {
             console.error(error);
             alert('导入失败：JSON解析错误');
@@ -198,12 +557,77 @@ export default function App() {
     event.target.value = '';
   };
 
+  // Validate a parsed backup and open the conflict review
+  const reviewImport = (importedData: unknown) => {
+    if (!Array.isArray(importedData)) {
+        alert('文件格式错误：必须是数组格式');
+        return;
+    }
+
+    const plan = analyzeImport(importedData, expenses);
+    if (plan.valid.length === 0) {
+        alert(`文件格式错误：没有可识别的记账数据 (${plan.invalid.length} 条无效)`);
+        return;
+    }
+    setImportPlan(plan);
+  };
+
+  const handleDecryptImport = async (passphrase: string) => {
+    if (!encryptedImport) return;
+    setIsDecrypting(true);
+    try {
+      const plaintext = await decryptBackup(encryptedImport, passphrase);
+      setEncryptedImport(null);
+      reviewImport(JSON.parse(plaintext));
+    } catch (e) {
+      console.error('Decrypt failed', e);
+      setDecryptError(e instanceof DecryptError ? e.message : '解密后的内容无法识别');
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handleConfirmImport = (next: Expense[], summary: string) => {
+    setExpenses(next);
+    setImportPlan(null);
+    alert(summary);
+  };
+
+  const handleCsvImport = (records: Expense[]) => {
+    setExpenses(prev => [...prev, ...records].sort((a, b) => b.date - a.date));
+    setCsvFile(null);
+    alert(`成功导入 ${records.length} 条记录`);
+  };
+
   const renderAddTab = () => {
-    const currentCategories = transactionType === 'expense' ? EXPENSE_CATEGORIES : INCOME_CATEGORIES;
+    const currentCategories = getActiveCategories(categories, transactionType);
+    // Show an edited record's archived category so it can be kept
+    const selectedConfig = getCategoryConfig(selectedCategory, categories);
+    if (editingExpense && selectedConfig.type === transactionType && !currentCategories.some(c => c.id === selectedConfig.id)) {
+      currentCategories.push(selectedConfig);
+    }
+    // Archived categories already used by an edited record's lines stay selectable too
+    const splitCategories = [...currentCategories];
+    splitLines?.forEach(line => {
+      const config = getCategoryConfig(line.category, categories);
+      if (config.type === transactionType && !splitCategories.some(c => c.id === config.id)) splitCategories.push(config);
+    });
     
     return (
       <div className="flex flex-col h-full">
         <div className="bg-white rounded-b-3xl shadow-sm z-10 pb-6">
+            {editingExpense && (
+                <div className="flex justify-between items-center px-6 pt-3 text-xs">
+                    <span className="font-medium text-indigo-600">正在编辑记录</span>
+                    <button
+                        onClick={handleCancelEdit}
+                        className="flex items-center space-x-0.5 text-gray-400 hover:text-gray-600"
+                    >
+                        <X size={14} />
+                        <span>取消</span>
+                    </button>
+                </div>
+            )}
             {/* Type Toggle */}
             <div className="flex justify-center pt-4 mb-4">
                 <div className="bg-gray-100 p-1 rounded-xl flex space-x-1">
@@ -227,25 +651,49 @@ export default function App() {
                     >
                         收入
                     </button>
+                    <button
+                        onClick={() => handleTypeChange('transfer')}
+                        className={`px-6 py-1.5 rounded-lg text-sm font-bold transition-all ${
+                            transactionType === 'transfer' 
+                            ? 'bg-white text-gray-900 shadow-sm' 
+                            : 'text-gray-400 hover:text-gray-600'
+                        }`}
+                    >
+                        转账
+                    </button>
                 </div>
             </div>
 
             <div className="px-6">
                 <label className="block text-sm font-medium text-gray-500 mb-2">
-                    {transactionType === 'expense' ? '支出金额' : '收入金额'}
+                    {transactionType === 'expense' ? '支出金额' : transactionType === 'income' ? '收入金额' : '转账金额'}
                 </label>
-                <div className="relative">
-                <span className="absolute left-0 top-1/2 -translate-y-1/2 text-3xl font-bold text-gray-900">¥</span>
+                <div className="flex items-center">
+                <div className="relative mr-2">
+                    <select
+                        value={currency}
+                        onChange={(e) => setCurrency(e.target.value)}
+                        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                    >
+                        {CURRENCIES.map(c => (
+                            <option key={c.code} value={c.code}>{c.symbol} {c.code} {c.label}</option>
+                        ))}
+                    </select>
+                    <span className="text-3xl font-bold text-gray-900 pointer-events-none whitespace-nowrap">
+                        {getCurrencySymbol(currency)}
+                    </span>
+                </div>
                 <input
                     type="number"
                     inputMode="decimal"
                     value={amount}
                     onChange={(e) => setAmount(e.target.value)}
                     placeholder="0.00"
-                    className="w-full pl-8 pr-4 py-2 text-4xl font-bold text-gray-900 placeholder-gray-200 outline-none border-b-2 border-transparent focus:border-indigo-500 transition-colors bg-transparent"
+                    className="flex-1 min-w-0 pr-4 py-2 text-4xl font-bold text-gray-900 placeholder-gray-200 outline-none border-b-2 border-transparent focus:border-indigo-500 transition-colors bg-transparent"
                     autoFocus
                 />
                 </div>
+                {amountInvalid && <p className="text-xs text-red-500 mt-1">金额最多保留两位小数</p>}
                 
                 <div className="mt-4 flex space-x-3">
                     <div className="flex-1 flex items-center bg-gray-50 rounded-lg px-3 py-2">
@@ -273,11 +721,142 @@ export default function App() {
                         </div>
                     </div>
                 </div>
+
+                <div className="mt-3">
+                    <TagInput value={tags} allTags={allTags} onChange={setTags} />
+                </div>
+
+                {/* Receipts - recurring rules post records without photos */}
+                {!repeatFrequency && (
+                <div className="mt-3">
+                    <ReceiptPicker
+                        value={attachments}
+                        onChange={setAttachments}
+                        onView={(index) => setViewingReceipts({ ids: attachments, index })}
+                    />
+                </div>
+                )}
+
+                {/* Reimbursable - expenses only, paid back later by an income record */}
+                {transactionType === 'expense' && (
+                <div className="mt-3 flex items-center space-x-2 overflow-x-auto no-scrollbar">
+                    <button
+                        onClick={() => setReimbursement(reimbursement ? null : 'pending')}
+                        className={`flex items-center space-x-1 px-2.5 py-1 rounded-lg text-xs whitespace-nowrap transition-colors ${
+                            reimbursement ? 'bg-indigo-50 text-indigo-600 font-bold' : 'text-gray-400 hover:bg-gray-50'
+                        }`}
+                    >
+                        <Receipt size={14} />
+                        <span>可报销</span>
+                    </button>
+                    {reimbursement && REIMBURSEMENT_STATUSES.map(s => (
+                        <button
+                            key={s}
+                            onClick={() => setReimbursement(s)}
+                            className={`px-2.5 py-1 rounded-lg text-xs whitespace-nowrap transition-colors ${
+                                reimbursement === s ? 'bg-gray-100 text-gray-700 font-bold' : 'text-gray-400 hover:bg-gray-50'
+                            }`}
+                        >
+                            {REIMBURSEMENT_STATUS_LABELS[s]}
+                        </button>
+                    ))}
+                </div>
+                )}
+
+                {/* Account - transfers pick both accounts below instead */}
+                {transactionType !== 'transfer' && (
+                <div className="mt-3 flex items-center space-x-2 overflow-x-auto no-scrollbar">
+                    {accounts
+                        .filter(a => !a.archived || a.id === selectedAccountId)
+                        .map(a => (
+                            <button
+                                key={a.id}
+                                onClick={() => setSelectedAccountId(a.id)}
+                                className={`flex items-center space-x-1 px-2.5 py-1 rounded-lg text-xs whitespace-nowrap transition-colors ${
+                                    selectedAccountId === a.id ? 'bg-indigo-50 text-indigo-600 font-bold' : 'text-gray-400 hover:bg-gray-50'
+                                }`}
+                            >
+                                <AccountIcon kind={a.kind} size={14} />
+                                <span>{a.name}</span>
+                            </button>
+                        ))}
+                </div>
+                )}
+
+                {/* Recurrence - only for new records, an edited occurrence stays a single record */}
+                {!editingExpense && (
+                    <div className="mt-3">
+                        <div className="flex items-center space-x-2 overflow-x-auto no-scrollbar">
+                            <Repeat size={14} className="text-gray-400 flex-shrink-0" />
+                            {([null, 'daily', 'weekly', 'monthly', 'yearly'] as (RecurrenceFrequency | null)[]).map(f => (
+                                <button
+                                    key={f || 'none'}
+                                    onClick={() => setRepeatFrequency(f)}
+                                    className={`px-2.5 py-1 rounded-lg text-xs whitespace-nowrap transition-colors ${
+                                        repeatFrequency === f ? 'bg-indigo-50 text-indigo-600 font-bold' : 'text-gray-400 hover:bg-gray-50'
+                                    }`}
+                                >
+                                    {f ? FREQUENCY_LABELS[f] : '不重复'}
+                                </button>
+                            ))}
+                        </div>
+                        {repeatFrequency && (
+                            <div className="mt-2 flex space-x-3 text-xs">
+                                <div className="flex-1 flex items-center bg-gray-50 rounded-lg px-3 py-1.5">
+                                    <span className="text-gray-400 mr-2 whitespace-nowrap">结束于</span>
+                                    <input
+                                        type="date"
+                                        value={repeatEndDate}
+                                        min={dateStr}
+                                        onChange={(e) => setRepeatEndDate(e.target.value)}
+                                        className="bg-transparent w-full outline-none text-gray-700"
+                                    />
+                                </div>
+                                <div className="w-28 flex items-center bg-gray-50 rounded-lg px-3 py-1.5">
+                                    <span className="text-gray-400 mr-2 whitespace-nowrap">次数</span>
+                                    <input
+                                        type="number"
+                                        inputMode="numeric"
+                                        value={repeatCount}
+                                        onChange={(e) => setRepeatCount(e.target.value)}
+                                        placeholder="不限"
+                                        className="bg-transparent w-full outline-none text-gray-700"
+                                    />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
             </div>
         </div>
 
+        {transactionType === 'transfer' ? renderTransferFields() : (
         <div className="flex-1 overflow-y-auto p-4 pb-32 no-scrollbar">
-          <h3 className="text-sm font-medium text-gray-500 mb-4 px-1">选择分类</h3>
+          <div className="flex justify-between items-center mb-4 px-1">
+            <h3 className="text-sm font-medium text-gray-500">{splitLines ? '拆分到多个分类' : '选择分类'}</h3>
+            <button
+              onClick={() => setSplitLines(splitLines ? null : [
+                { category: selectedCategory, amount: amountCents !== null && amountCents > 0 ? formatCents(amountCents) : '' },
+                { category: currentCategories.find(c => c.id !== selectedCategory)?.id || selectedCategory, amount: '' },
+              ])}
+              className={`flex items-center space-x-1 px-2.5 py-1 rounded-lg text-xs transition-colors ${
+                splitLines ? 'bg-indigo-50 text-indigo-600 font-bold' : 'text-gray-400 hover:bg-gray-50'
+              }`}
+            >
+              <Split size={14} />
+              <span>{splitLines ? '取消拆分' : '拆分'}</span>
+            </button>
+          </div>
+          {splitLines ? (
+            <SplitEditor
+              lines={splitLines}
+              categories={splitCategories}
+              total={amountCents !== null && amountCents > 0 ? amountCents : null}
+              currencySymbol={getCurrencySymbol(currency)}
+              error={splitError}
+              onChange={setSplitLines}
+            />
+          ) : (
           <div className="grid grid-cols-4 gap-4">
             {currentCategories.map((cat) => (
               <button
@@ -290,44 +869,107 @@ export default function App() {
                 }`}
               >
                 <div className={`p-2 rounded-full mb-1 ${selectedCategory === cat.id ? 'bg-white/20' : cat.color}`}>
-                   {React.cloneElement(cat.icon as React.ReactElement<any>, { size: 20 })}
+                   <CategoryIcon icon={cat.icon} size={20} />
                 </div>
                 <span className="text-xs font-medium">{cat.label}</span>
               </button>
             ))}
           </div>
+          )}
         </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderTransferFields = () => {
+    const selectable = (id: string) => accounts.filter(a => !a.archived || a.id === id);
+
+    const renderAccountGrid = (value: string, onSelect: (id: string) => void, disabledId?: string) => (
+      <div className="grid grid-cols-3 gap-3 mb-6">
+        {selectable(value).map(a => (
+          <button
+            key={a.id}
+            onClick={() => onSelect(a.id)}
+            disabled={a.id === disabledId}
+            className={`flex flex-col items-center justify-center p-3 rounded-2xl transition-all duration-200 disabled:opacity-30 ${
+              value === a.id
+                ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-200 scale-105'
+                : 'bg-white text-gray-500 hover:bg-gray-50'
+            }`}
+          >
+            <AccountIcon kind={a.kind} size={20} />
+            <span className="text-xs font-medium mt-1 truncate max-w-full">{a.name}</span>
+          </button>
+        ))}
+      </div>
+    );
+
+    return (
+      <div className="flex-1 overflow-y-auto p-4 pb-32 no-scrollbar">
+        <h3 className="text-sm font-medium text-gray-500 mb-4 px-1">转出账户</h3>
+        {renderAccountGrid(selectedAccountId, setSelectedAccountId, toAccountId)}
+        <h3 className="text-sm font-medium text-gray-500 mb-4 px-1">转入账户</h3>
+        {renderAccountGrid(toAccountId, setToAccountId, selectedAccountId)}
+        <div className="flex items-center bg-white rounded-xl px-4 py-3">
+          <span className="text-sm text-gray-500 mr-3 whitespace-nowrap">手续费 {getCurrencySymbol(currency)}</span>
+          <input
+            type="number"
+            inputMode="decimal"
+            value={fee}
+            onChange={(e) => setFee(e.target.value)}
+            placeholder="0.00 (可选，从转出账户扣除)"
+            className="bg-transparent w-full text-sm outline-none text-gray-700"
+          />
+        </div>
+        {feeInvalid && <p className="text-xs text-red-500 mt-1 px-1">手续费最多保留两位小数</p>}
       </div>
     );
   };
 
   const renderListTab = () => {
-    // Filter expenses by selected month
-    const year = listCurrentDate.getFullYear();
-    const month = listCurrentDate.getMonth();
+    // Filter expenses by selected booking month
+    const listPeriod = getPeriod('month', listCurrentDate, periodSettings);
+    const { year, month } = getMonthOf(listPeriod.start, periodSettings.monthStartDay);
 
-    const filteredExpenses = expenses.filter(e => {
+    const matchesFilters = (e: Expense) =>
+        (!accountFilter || involvesAccount(e, accountFilter)) &&
+        (!tagFilter || !!e.tags?.includes(tagFilter));
+    const inPeriod = (start: Date, end: Date) => (e: Expense) => {
         const d = new Date(e.date);
-        return d.getFullYear() === year && d.getMonth() === month;
-    });
+        return d >= start && d <= end && matchesFilters(e);
+    };
+    const inMonth = inPeriod(listPeriod.start, listPeriod.end);
+    // Rows keep their original currency; totals use the converted personal records
+    const filteredExpenses = expenses.filter(inMonth);
+    const filteredBaseExpenses = personalExpenses.filter(inMonth);
+
+    // Daily totals of the personal records for the list's day subtotals, so they add up to the
+    // month totals above, and for the calendar and the heatmap, which covers the whole booking year
+    const calendarPeriod = listView === 'heatmap' ? getPeriod('year', listCurrentDate, periodSettings) : listPeriod;
+    const dailyTotals = computeDailyTotals(
+        listView === 'heatmap' ? personalExpenses.filter(inPeriod(calendarPeriod.start, calendarPeriod.end)) : filteredBaseExpenses
+    );
 
-    const monthExpense = filteredExpenses
+    // Balances for the filtered account: current total and after each record
+    const filteredAccount = accountFilter ? accounts.find(a => a.id === accountFilter) : undefined;
+    const accountBalance = filteredAccount ? computeAccountBalances([filteredAccount], baseExpenses).get(filteredAccount.id) || 0 : 0;
+    const runningBalances = filteredAccount ? computeRunningBalances(filteredAccount, baseExpenses) : new Map<string, number>();
+
+    const monthExpense = sumMoney(filteredBaseExpenses
         .filter(e => e.type === 'expense')
-        .reduce((acc, curr) => acc + curr.amount, 0);
+        .map(e => e.amount));
     
-    const monthIncome = filteredExpenses
+    const monthIncome = sumMoney(filteredBaseExpenses
         .filter(e => e.type === 'income')
-        .reduce((acc, curr) => acc + curr.amount, 0);
+        .map(e => e.amount));
 
     const monthBalance = monthIncome - monthExpense;
 
-    // Group expenses by date
-    const grouped = filteredExpenses.reduce((groups, expense) => {
-      const dateKey = new Date(expense.date).toLocaleDateString('zh-CN', { year: 'numeric', month: '2-digit', day: '2-digit' }).replace(/\//g, '-');
-      if (!groups[dateKey]) groups[dateKey] = [];
-      groups[dateKey].push(expense);
-      return groups;
-    }, {} as Record<string, Expense[]>);
+    const budgetStatuses = computeBudgetStatuses(budgets, personalExpenses, year, month, periodSettings.monthStartDay);
+    const formatAmount = (value: number) => amountsHidden ? '****' : formatCents(value);
+    const totalBudget = budgetStatuses.find(s => s.budget.category === 'total');
+    const overspentCategories = budgetStatuses.filter(s => s.budget.category !== 'total' && s.remaining < 0);
 
     return (
       <div className="flex flex-col h-full bg-gray-50">
@@ -348,6 +990,11 @@ export default function App() {
                         <span className="text-lg font-bold text-gray-900 leading-none">
                             {month + 1}月
                         </span>
+                        {periodSettings.monthStartDay !== 1 && (
+                            <span className="text-[10px] text-gray-400 mt-1">
+                                {listPeriod.start.getMonth() + 1}/{listPeriod.start.getDate()} - {listPeriod.end.getMonth() + 1}/{listPeriod.end.getDate()}
+                            </span>
+                        )}
                     </div>
                     <button 
                         onClick={() => navigateListMonth(1)}
@@ -356,80 +1003,134 @@ export default function App() {
                         <ChevronRight size={20} />
                     </button>
                 </div>
+                <div className="flex flex-col items-end space-y-1">
+                    <div className="flex items-center space-x-2">
+                        {amountsHidden && (
+                            <button
+                                onClick={() => setShowUnlock(true)}
+                                className="p-1.5 rounded-full hover:bg-gray-100 text-indigo-600 transition-colors"
+                            >
+                                <Lock size={18} />
+                            </button>
+                        )}
+                        <button
+                            onClick={() => setShowSearch(true)}
+                            className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors"
+                        >
+                            <Search size={18} />
+                        </button>
+                        {(allTags.length > 0 || tagFilter) && (
+                            <TagFilter tags={allTags} value={tagFilter} onChange={setTagFilter} />
+                        )}
+                        <AccountFilter accounts={accounts} value={accountFilter} onChange={setAccountFilter} />
+                    </div>
+                    {filteredAccount && (
+                        <span className="text-[10px] text-gray-400">
+                            账户余额 {baseSymbol} {formatAmount(accountBalance)}
+                        </span>
+                    )}
+                </div>
             </div>
             
             <div className="grid grid-cols-3 gap-2">
                 <div className="flex flex-col">
                     <span className="text-xs text-gray-400 mb-0.5">本月收入</span>
                     <span className="text-sm font-bold text-gray-900">
-                        ¥ {monthIncome.toFixed(2)}
+                        {baseSymbol} {formatAmount(monthIncome)}
                     </span>
                 </div>
                 <div className="flex flex-col">
                     <span className="text-xs text-gray-400 mb-0.5">本月支出</span>
                     <span className="text-sm font-bold text-gray-900">
-                        ¥ {monthExpense.toFixed(2)}
+                        {baseSymbol} {formatAmount(monthExpense)}
                     </span>
                 </div>
                 <div className="flex flex-col items-end">
                     <span className="text-xs text-gray-400 mb-0.5">结余</span>
                     <span className={`text-lg font-bold ${monthBalance >= 0 ? 'text-indigo-600' : 'text-red-500'}`}>
-                        ¥ {monthBalance.toFixed(2)}
+                        {baseSymbol} {formatAmount(monthBalance)}
                     </span>
                 </div>
             </div>
+
+            {totalBudget && (
+                <div className="mt-3">
+                    <div className="flex justify-between text-xs mb-1">
+                        <span className="text-gray-400">本月预算 {baseSymbol} {formatAmount(totalBudget.limit)}</span>
+                        <span className={totalBudget.remaining < 0 ? 'font-bold text-red-500' : 'text-gray-500'}>
+                            {totalBudget.remaining < 0
+                                ? `已超支 ${baseSymbol} ${formatAmount(-totalBudget.remaining)}`
+                                : `剩余 ${baseSymbol} ${formatAmount(totalBudget.remaining)}`}
+                        </span>
+                    </div>
+                    <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                        <div
+                            className={`h-full rounded-full ${getProgressColor(totalBudget.ratio)}`}
+                            style={{ width: `${Math.min(totalBudget.ratio, 1) * 100}%` }}
+                        />
+                    </div>
+                </div>
+            )}
+            {overspentCategories.length > 0 && (
+                <p className="text-[10px] text-red-500 mt-2">
+                    超支分类: {overspentCategories.map(s => getCategoryConfig(s.budget.category, categories).label).join('、')}
+                </p>
+            )}
+            {missingRates.length > 0 && (
+                <p className="text-[10px] text-amber-600 mt-2">
+                    {missingRates.join('、')} 缺少汇率，未计入合计
+                </p>
+            )}
         </div>
 
         {/* Scrollable List */}
         <div className="flex-1 overflow-y-auto pb-40 px-4 pt-4 no-scrollbar">
-            {filteredExpenses.length === 0 ? (
+            <div className="flex justify-end mb-3">
+                <div className="bg-gray-100 p-0.5 rounded-lg flex space-x-0.5">
+                    {(['list', 'calendar', 'heatmap'] as const).map(view => (
+                        <button
+                            key={view}
+                            onClick={() => setListView(view)}
+                            className={`px-2.5 py-0.5 rounded-md text-[10px] font-medium transition-all ${
+                                listView === view ? 'bg-white shadow text-gray-900' : 'text-gray-400'
+                            }`}
+                        >
+                            {view === 'list' ? '列表' : view === 'calendar' ? '月历' : '全年'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            {listView !== 'list' ? (
+            <CalendarView
+                layout={listView === 'heatmap' ? 'year' : 'month'}
+                period={calendarPeriod}
+                totals={dailyTotals}
+                weekStartDay={periodSettings.weekStartDay}
+                currencySymbol={baseSymbol}
+                hideAmounts={amountsHidden}
+                onSelectDay={setDayDetail}
+            />
+            ) : filteredExpenses.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-64 text-gray-400">
                 <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
                     <Calendar size={24} className="opacity-40" />
                 </div>
-                <p>本月暂无账单</p>
+                <p>{tagFilter ? `本月没有 #${tagFilter} 的账单` : '本月暂无账单'}</p>
             </div>
             ) : (
-            Object.entries(grouped).map(([date, items]: [string, Expense[]]) => (
-                <div key={date} className="mb-6">
-                <div className="flex items-center justify-between mb-2 px-2">
-                    <span className="text-sm font-semibold text-gray-500">{date}</span>
-                    <div className="flex space-x-3 text-xs text-gray-400">
-                         {items.some(i => i.type === 'income') && <span>收: {items.filter(i => i.type === 'income').reduce((a, b) => a + b.amount, 0).toFixed(2)}</span>}
-                         {items.some(i => i.type === 'expense') && <span>支: {items.filter(i => i.type === 'expense').reduce((a, b) => a + b.amount, 0).toFixed(2)}</span>}
-                    </div>
-                </div>
-                <div className="bg-white rounded-2xl shadow-sm overflow-hidden border border-gray-100">
-                    {items.map((item, idx) => {
-                    const catConfig = getCategoryConfig(item.category);
-                    return (
-                        <div key={item.id} className={`flex items-center p-4 ${idx !== items.length - 1 ? 'border-b border-gray-50' : ''}`}>
-                        <div className={`p-2 rounded-full mr-3 ${catConfig.color} bg-opacity-20`}>
-                            {React.cloneElement(catConfig.icon as React.ReactElement<any>, { size: 18 })}
-                        </div>
-                        <div className="flex-1">
-                            <div className="flex justify-between items-center">
-                            <span className="font-medium text-gray-900">{catConfig.label}</span>
-                            <span className={`font-bold ${item.type === 'income' ? 'text-green-600' : 'text-gray-900'}`}>
-                                {item.type === 'income' ? '+' : '-'} {item.amount.toFixed(2)}
-                            </span>
-                            </div>
-                            <div className="flex justify-between items-center mt-1">
-                            <span className="text-xs text-gray-400 truncate max-w-[150px]">{item.note || '无备注'}</span>
-                            <button 
-                                onClick={() => handleDelete(item.id)}
-                                className="text-gray-300 hover:text-red-500 transition-colors p-1"
-                            >
-                                <Trash2 size={14} />
-                            </button>
-                            </div>
-                        </div>
-                        </div>
-                    );
-                    })}
-                </div>
-                </div>
-            ))
+            <TransactionList
+                expenses={filteredExpenses}
+                categories={categories}
+                accounts={accounts}
+                currency={currencySettings}
+                accountFilter={accountFilter}
+                runningBalances={runningBalances}
+                dayTotals={dailyTotals}
+                hideAmounts={amountsHidden}
+                onEdit={handleEdit}
+                onDelete={handleDelete}
+                onViewReceipts={(ids, index) => setViewingReceipts({ ids, index })}
+            />
             )}
         </div>
       </div>
@@ -438,20 +1139,70 @@ export default function App() {
 
   const renderStatsTab = () => (
     <div className="h-full overflow-y-auto pb-40 px-4 pt-4 no-scrollbar">
-      <h2 className="text-xl font-bold text-gray-900 mb-6">消费统计</h2>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-bold text-gray-900">消费统计</h2>
+        <button
+          onClick={() => setShowSettings(true)}
+          className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors"
+        >
+          <SettingsIcon size={20} />
+        </button>
+      </div>
       <Statistics 
-        expenses={expenses} 
-        onExport={handleExport}
+        expenses={personalExpenses} 
+        currencySymbol={baseSymbol}
+        missingRates={missingRates}
+        outstanding={outstanding}
+        onOpenReimbursements={() => setSettingsPage('reimbursements')}
+        categories={categories}
+        accounts={accounts}
+        accountFilter={accountFilter}
+        onAccountFilterChange={setAccountFilter}
+        budgets={budgets}
+        periodSettings={periodSettings}
+        onBudgetsChange={setBudgets}
+        onShowDay={setDayDetail}
+        onEditRecord={(id) => {
+          const expense = expenses.find(e => e.id === id);
+          if (expense) handleEdit(expense);
+        }}
+        hideAmounts={amountsHidden}
+        onUnlock={() => setShowUnlock(true)}
+        onExport={() => setShowExport(true)}
         onImport={handleImport}
       />
     </div>
   );
 
-  const isFormValid = !!(amount && parseFloat(amount) > 0);
+  // Amounts with more than two decimals are rejected rather than rounded
+  const amountCents = parseMoney(amount);
+  const amountInvalid = amount !== '' && amountCents === null;
+  const feeInvalid = transactionType === 'transfer' && fee !== '' && parseMoney(fee) === null;
+  const splitDraftCents = splitLines?.map(line => parseMoney(line.amount)) || [];
+  const parsedSplits = splitLines && !splitDraftCents.includes(null)
+    ? splitLines.map((line, i) => ({ category: line.category, amount: splitDraftCents[i]! }))
+    : null;
+  const splitError = !splitLines || transactionType === 'transfer' ? null
+    : parsedSplits ? validateSplits(parsedSplits, amountCents ?? 0) : '拆分金额最多保留两位小数';
+  const isFormValid = amountCents !== null && amountCents > 0 && !feeInvalid && !splitError &&
+    (transactionType !== 'transfer' || (!!toAccountId && toAccountId !== selectedAccountId));
   const isAddingMode = activeTab === Tab.ADD;
 
   return (
     <div className="flex flex-col h-screen w-full max-w-md mx-auto bg-gray-50 relative overflow-hidden">
+      {storageError && (
+        <div className="absolute top-0 inset-x-0 z-[60] bg-red-500 text-white text-xs px-4 py-2 flex items-center">
+          <AlertTriangle size={14} className="mr-2 flex-shrink-0" />
+          <span className="flex-1">{storageError}</span>
+          <button onClick={handleRetrySave} className="font-bold underline mx-2">
+            {isLoaded ? '重试' : '重新加载'}
+          </button>
+          <button onClick={() => setStorageError(null)}>
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
       {/* Content Area */}
       <div className="flex-1 overflow-hidden">
         {activeTab === Tab.ADD && renderAddTab()}
@@ -474,7 +1225,7 @@ export default function App() {
         <button
           onClick={() => {
             if (isAddingMode) {
-              if (isFormValid) handleAddExpense();
+              if (isFormValid) handleSaveExpense();
             } else {
               setActiveTab(Tab.ADD);
             }
@@ -493,7 +1244,7 @@ export default function App() {
              )}
           </div>
           <span className={`text-[10px] font-medium mt-1 ${isAddingMode ? 'text-indigo-600' : 'text-gray-400'}`}>
-            {isAddingMode && isFormValid ? '完成' : '记账'}
+            {isAddingMode && isFormValid ? (editingId ? '保存' : '完成') : '记账'}
           </span>
         </button>
 
@@ -507,6 +1258,193 @@ export default function App() {
           <span className="text-[10px] font-medium">统计</span>
         </button>
       </div>
+
+      {showSearch && (
+        <SearchView
+          expenses={expenses}
+          categories={categories}
+          accounts={accounts}
+          currency={currencySettings}
+          hideAmounts={amountsHidden}
+          onEdit={(expense) => {
+            if (amountsHidden) {
+              setShowUnlock(true);
+              return;
+            }
+            setShowSearch(false);
+            handleEdit(expense);
+          }}
+          onDelete={handleDelete}
+          onViewReceipts={(ids, index) => setViewingReceipts({ ids, index })}
+          onClose={() => setShowSearch(false)}
+        />
+      )}
+
+      {showExport && !amountsHidden && (
+        <ExportDialog
+          expenses={expenses}
+          categories={categories}
+          accounts={accounts}
+          currency={currencySettings}
+          onExport={handleExport}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {encryptedImport && (
+        <PassphrasePrompt
+          title="导入加密备份"
+          error={decryptError}
+          busy={isDecrypting}
+          onSubmit={handleDecryptImport}
+          onClose={() => setEncryptedImport(null)}
+        />
+      )}
+
+      {importPlan && !amountsHidden && (
+        <ImportReview
+          plan={importPlan}
+          expenses={expenses}
+          categories={categories}
+          accounts={accounts}
+          onConfirm={handleConfirmImport}
+          onClose={() => setImportPlan(null)}
+        />
+      )}
+
+      {csvFile && !amountsHidden && (
+        <CsvImportWizard
+          file={csvFile}
+          expenses={expenses}
+          categories={categories}
+          accounts={accounts}
+          baseCurrency={currencySettings.baseCurrency}
+          onImport={handleCsvImport}
+          onClose={() => setCsvFile(null)}
+        />
+      )}
+      {showSettings && (
+        <Settings
+          onNavigate={(page) => {
+            // The PIN settings and backup restores are only available after unlocking
+            if ((page === 'security' || page === 'backups') && amountsHidden) setShowUnlock(true);
+            else setSettingsPage(page);
+          }}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+      {settingsPage === 'accounts' && (
+        <AccountManager
+          accounts={accounts}
+          expenses={baseExpenses}
+          currencySymbol={baseSymbol}
+          hideAmounts={amountsHidden}
+          onUnlock={() => setShowUnlock(true)}
+          onChange={setAccounts}
+          onClose={() => setSettingsPage(null)}
+        />
+      )}
+      {settingsPage === 'recurring' && (
+        <RecurringManager
+          rules={recurringRules}
+          categories={categories}
+          hideAmounts={amountsHidden}
+          onChange={setRecurringRules}
+          onClose={() => setSettingsPage(null)}
+        />
+      )}
+      {settingsPage === 'backups' && !amountsHidden && (
+        <BackupManager
+          settings={backupSettings}
+          onSettingsChange={setBackupSettings}
+          currentData={{ expenses, budgets, categories, recurringRules, accounts, currency: currencySettings, period: periodSettings }}
+          onRestore={handleRestore}
+          onClose={() => setSettingsPage(null)}
+        />
+      )}
+      {settingsPage === 'security' && !amountsHidden && (
+        <SecuritySettings
+          settings={lockSettings}
+          onChange={handleLockSettingsChange}
+          onClose={() => setSettingsPage(null)}
+        />
+      )}
+      {settingsPage === 'currency' && (
+        <CurrencyManager
+          settings={currencySettings}
+          missingRates={missingRates}
+          hasBaseAmounts={budgets.some(b => b.amount !== 0) || accounts.some(a => a.openingBalance !== 0)}
+          onChange={setCurrencySettings}
+          onBaseChange={handleBaseCurrencyChange}
+          onClose={() => setSettingsPage(null)}
+        />
+      )}
+      {settingsPage === 'period' && (
+        <PeriodSettingsPage
+          settings={periodSettings}
+          onChange={setPeriodSettings}
+          onClose={() => setSettingsPage(null)}
+        />
+      )}
+      {settingsPage === 'reimbursements' && (
+        <ReimbursementManager
+          expenses={expenses}
+          categories={categories}
+          currency={currencySettings}
+          hideAmounts={amountsHidden}
+          onChange={setExpenses}
+          onClose={() => setSettingsPage(null)}
+        />
+      )}
+      {settingsPage === 'categories' && (
+        <CategoryManager
+          categories={categories}
+          onChange={setCategories}
+          onClose={() => setSettingsPage(null)}
+        />
+      )}
+
+      {dayDetail && (
+        <DayRecordsSheet
+          dateKey={dayDetail}
+          expenses={expenses.filter(e =>
+            toDateKey(new Date(e.date)) === dayDetail && (!accountFilter || involvesAccount(e, accountFilter)) &&
+            (activeTab !== Tab.LIST || !tagFilter || !!e.tags?.includes(tagFilter))
+          )}
+          categories={categories}
+          accounts={accounts}
+          currency={currencySettings}
+          hideAmounts={amountsHidden}
+          onEdit={(expense) => {
+            if (amountsHidden) {
+              setShowUnlock(true);
+              return;
+            }
+            setDayDetail(null);
+            handleEdit(expense);
+          }}
+          onDelete={handleDelete}
+          onViewReceipts={(ids, index) => setViewingReceipts({ ids, index })}
+          onAdd={() => handleAddOnDate(dayDetail)}
+          onClose={() => setDayDetail(null)}
+        />
+      )}
+
+      {viewingReceipts && (
+        <ReceiptViewer
+          ids={viewingReceipts.ids}
+          initialIndex={viewingReceipts.index}
+          onClose={() => setViewingReceipts(null)}
+        />
+      )}
+
+      {lockSettings.pinHash && (
+        isLocked && lockSettings.mode === 'full' ? (
+          <LockScreen settings={lockSettings} onUnlock={handleUnlock} />
+        ) : showUnlock && amountsHidden ? (
+          <LockScreen settings={lockSettings} onUnlock={handleUnlock} onCancel={() => setShowUnlock(false)} />
+        ) : null
+      )}
     </div>
   );
 }
\ No newline at end of file
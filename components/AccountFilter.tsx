@@ -0,0 +1,27 @@
+import React from 'react';
+import { Wallet } from 'lucide-react';
+import { Account } from '../types';
+
+interface AccountFilterProps {
+  accounts: Account[];
+  value: string | null; // null = all accounts
+  onChange: (accountId: string | null) => void;
+}
+
+const AccountFilter: React.FC<AccountFilterProps> = ({ accounts, value, onChange }) => (
+  <div className="relative flex items-center bg-gray-50 rounded-lg pl-2 pr-2 py-1 text-xs text-gray-600">
+    <Wallet size={14} className="mr-1 text-gray-400" />
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className="bg-transparent outline-none appearance-none pr-1"
+    >
+      <option value="">全部账户</option>
+      {accounts.map(a => (
+        <option key={a.id} value={a.id}>{a.name}{a.archived ? ' (已归档)' : ''}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export default AccountFilter;
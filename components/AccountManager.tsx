@@ -0,0 +1,195 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, Archive, ArchiveRestore, Plus, X } from 'lucide-react';
+import { Account, AccountKind, Expense } from '../types';
+import { ACCOUNT_KINDS, AccountIcon } from '../constants';
+import { computeAccountBalances } from '../services/accountService';
+import { parseMoney, formatCents, sumMoney } from '../services/moneyService';
+
+interface AccountManagerProps {
+  accounts: Account[];
+  expenses: Expense[]; // in the base currency
+  currencySymbol: string;
+  hideAmounts?: boolean; // app lock in hidden-amounts mode
+  onUnlock: () => void; // asks for the PIN before an opening balance is shown for editing
+  onChange: (accounts: Account[]) => void;
+  onClose: () => void;
+}
+
+interface DraftAccount {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  openingBalance: string;
+  archived?: boolean;
+}
+
+const AccountManager: React.FC<AccountManagerProps> = ({ accounts, expenses, currencySymbol, hideAmounts, onUnlock, onChange, onClose }) => {
+  const [editing, setEditing] = useState<DraftAccount | null>(null);
+
+  const balances = useMemo(() => computeAccountBalances(accounts, expenses), [accounts, expenses]);
+  const netAssets = sumMoney(accounts.map(a => balances.get(a.id) || 0));
+  const formatAmount = (value: number) => hideAmounts ? '****' : formatCents(value);
+
+  const startEditing = (account: Account) => {
+    if (hideAmounts) {
+      onUnlock();
+      return;
+    }
+    setEditing({ ...account, openingBalance: formatCents(account.openingBalance) });
+  };
+
+  const toggleArchived = (account: Account) => {
+    if (!account.archived && accounts.filter(a => !a.archived).length <= 1) {
+      alert('至少需要保留一个可用账户');
+      return;
+    }
+    onChange(accounts.map(a => a.id === account.id ? { ...a, archived: !a.archived } : a));
+  };
+
+  const saveEditing = () => {
+    if (!editing) return;
+    const name = editing.name.trim();
+    if (!name) {
+      alert('请输入账户名称');
+      return;
+    }
+    const openingBalance = editing.openingBalance.trim() === '' ? 0 : parseMoney(editing.openingBalance);
+    if (openingBalance === null) {
+      alert('初始余额最多保留两位小数');
+      return;
+    }
+    const saved: Account = {
+      id: editing.id,
+      name,
+      kind: editing.kind,
+      openingBalance,
+      archived: editing.archived,
+    };
+    const exists = accounts.some(a => a.id === saved.id);
+    onChange(exists ? accounts.map(a => a.id === saved.id ? saved : a) : [...accounts, saved]);
+    setEditing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 max-w-md mx-auto flex flex-col">
+      <div className="bg-white px-4 py-4 shadow-sm border-b border-gray-100 flex items-center">
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <h2 className="flex-1 text-center text-base font-bold text-gray-900 -ml-8">账户管理</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 pb-10 no-scrollbar">
+        <div className="bg-indigo-600 p-4 rounded-xl shadow-md text-white mb-4">
+          <p className="text-indigo-200 text-xs mb-1">净资产</p>
+          <p className="text-2xl font-bold">{currencySymbol}{formatAmount(netAssets)}</p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm overflow-hidden border border-gray-100">
+          {accounts.map((account, idx) => {
+            const balance = balances.get(account.id) || 0;
+            return (
+              <div
+                key={account.id}
+                className={`flex items-center p-3 ${idx !== accounts.length - 1 ? 'border-b border-gray-50' : ''} ${account.archived ? 'opacity-40' : ''}`}
+              >
+                <button
+                  onClick={() => startEditing(account)}
+                  className="flex-1 flex items-center text-left"
+                >
+                  <div className={`p-2 rounded-full mr-3 ${ACCOUNT_KINDS[account.kind].color}`}>
+                    <AccountIcon kind={account.kind} size={18} />
+                  </div>
+                  <div className="flex-1">
+                    <p className="font-medium text-gray-900">{account.name}</p>
+                    <p className="text-[10px] text-gray-400">
+                      {ACCOUNT_KINDS[account.kind].label}{account.archived ? ' · 已归档' : ''}
+                    </p>
+                  </div>
+                  <span className={`font-bold mr-2 ${balance < 0 ? 'text-red-500' : 'text-gray-900'}`}>
+                    {currencySymbol}{formatAmount(balance)}
+                  </span>
+                </button>
+                <button onClick={() => toggleArchived(account)} className="p-1.5 text-gray-400 hover:text-indigo-600">
+                  {account.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={() => setEditing({ id: `acc_${Date.now()}`, name: '', kind: 'bank', openingBalance: '' })}
+          className="w-full mt-4 py-3 flex items-center justify-center space-x-1 rounded-xl border border-dashed border-gray-300 text-sm text-gray-500 hover:bg-white"
+        >
+          <Plus size={16} />
+          <span>新建账户</span>
+        </button>
+      </div>
+
+      {editing && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-end justify-center">
+          <div className="bg-white w-full max-w-md rounded-t-3xl flex flex-col">
+            <div className="flex justify-between items-center px-6 pt-5 pb-3 border-b border-gray-100">
+              <h3 className="text-base font-bold text-gray-900">
+                {accounts.some(a => a.id === editing.id) ? '编辑账户' : '新建账户'}
+              </h3>
+              <button onClick={() => setEditing(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="px-6 py-4 space-y-4">
+              <input
+                type="text"
+                value={editing.name}
+                onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                placeholder="账户名称，如 招商银行卡"
+                className="w-full bg-gray-50 rounded-lg px-3 py-2 text-sm outline-none text-gray-700"
+              />
+
+              <div className="grid grid-cols-5 gap-2">
+                {(Object.keys(ACCOUNT_KINDS) as AccountKind[]).map(kind => (
+                  <button
+                    key={kind}
+                    onClick={() => setEditing({ ...editing, kind })}
+                    className={`flex flex-col items-center p-2 rounded-xl text-[10px] ${
+                      editing.kind === kind ? 'bg-indigo-600 text-white' : 'bg-gray-50 text-gray-500'
+                    }`}
+                  >
+                    <AccountIcon kind={kind} size={18} />
+                    <span className="mt-1">{ACCOUNT_KINDS[kind].label}</span>
+                  </button>
+                ))}
+              </div>
+
+              <div className="flex items-center bg-gray-50 rounded-lg px-3 py-2">
+                <span className="text-sm text-gray-400 mr-2 whitespace-nowrap">初始余额 {currencySymbol}</span>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  value={editing.openingBalance}
+                  onChange={(e) => setEditing({ ...editing, openingBalance: e.target.value })}
+                  placeholder="0.00"
+                  className="bg-transparent w-full text-sm outline-none text-gray-700"
+                />
+              </div>
+              <p className="text-[10px] text-gray-400">信用卡欠款请填写负数</p>
+            </div>
+
+            <div className="px-6 pb-8 pt-1">
+              <button
+                onClick={saveEditing}
+                className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold active:scale-95 transition-transform"
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AccountManager;
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { ChevronLeft, History, RotateCcw, Trash2, X } from 'lucide-react';
+import { BackupSettings } from '../types';
+import {
+  BackupData, BackupSummary, Backup, RestorePreview, BACKUP_REASON_LABELS,
+  listBackups, readBackup, createBackup, deleteBackup, previewRestore
+} from '../services/backupService';
+import { toDateKey } from '../services/dateService';
+import { importAttachments } from '../services/attachmentService';
+
+interface BackupManagerProps {
+  settings: BackupSettings;
+  onSettingsChange: (settings: BackupSettings) => void;
+  currentData: BackupData;
+  onRestore: (data: BackupData) => void;
+  onClose: () => void;
+}
+
+const KEEP_OPTIONS = [3, 7, 14, 30];
+
+const formatTime = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${toDateKey(d)} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+const BackupManager: React.FC<BackupManagerProps> = ({ settings, onSettingsChange, currentData, onRestore, onClose }) => {
+  const [backups, setBackups] = useState<BackupSummary[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [pending, setPending] = useState<{ backup: Backup; preview: RestorePreview } | null>(null);
+
+  const refresh = () => {
+    listBackups()
+      .then(setBackups)
+      .catch(e => {
+        console.error('Failed to list backups', e);
+        setBackups([]);
+      });
+  };
+
+  useEffect(refresh, []);
+
+  // Every action here touches storage, so run them one at a time and report failures
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+    } catch (e) {
+      console.error(failure, e);
+      alert(`${failure}: ${(e as Error)?.message || e}`);
+    } finally {
+      setBusy(false);
+      refresh();
+    }
+  };
+
+  const handleBackupNow = () => run(async () => {
+    await createBackup(currentData, 'manual', settings.keep, settings.includeAttachments);
+  }, '备份失败');
+
+  const handlePreview = (summary: BackupSummary) => run(async () => {
+    const backup = await readBackup(summary.id);
+    setPending({ backup, preview: previewRestore(backup, currentData) });
+  }, '读取备份失败');
+
+  const handleRestore = () => run(async () => {
+    if (!pending) return;
+    // Snapshot the current state first so a restore can itself be undone
+    await createBackup(currentData, 'restore', settings.keep, settings.includeAttachments, pending.backup.id);
+    const { expenses, budgets, categories, recurringRules, accounts, currency, period, attachments } = pending.backup;
+    if (attachments) await importAttachments(attachments);
+    onRestore({ expenses, budgets, categories, recurringRules, accounts, currency, period });
+    setPending(null);
+    alert('已恢复到所选备份');
+  }, '恢复失败');
+
+  const handleDelete = (summary: BackupSummary) => {
+    if (!confirm(`确定删除 ${formatTime(summary.createdAt)} 的备份吗?`)) return;
+    run(() => deleteBackup(summary.id), '删除失败');
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 max-w-md mx-auto flex flex-col">
+      <div className="bg-white px-4 py-4 shadow-sm border-b border-gray-100 flex items-center">
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <h2 className="flex-1 text-center text-base font-bold text-gray-900 -ml-8">自动备份</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 pb-10 no-scrollbar space-y-4">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 space-y-3 text-sm">
+          <label className="flex justify-between items-center">
+            <span className="text-gray-700">每天自动备份</span>
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+              className="accent-indigo-600"
+            />
+          </label>
+          <label className="flex justify-between items-center">
+            <span>
+              <span className="text-gray-700">包含票据照片</span>
+              <span className="block text-xs text-gray-400 mt-0.5">备份会明显变大；不包含时恢复后照片可能缺失</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={settings.includeAttachments}
+              onChange={(e) => onSettingsChange({ ...settings, includeAttachments: e.target.checked })}
+              className="accent-indigo-600"
+            />
+          </label>
+          <div className="flex justify-between items-center">
+            <span className="text-gray-700">保留份数</span>
+            <div className="flex space-x-1.5">
+              {KEEP_OPTIONS.map(n => (
+                <button
+                  key={n}
+                  onClick={() => onSettingsChange({ ...settings, keep: n })}
+                  className={`px-2.5 py-1 rounded-lg text-xs transition-colors ${
+                    settings.keep === n ? 'bg-indigo-50 text-indigo-600 font-bold' : 'bg-gray-50 text-gray-500'
+                  }`}
+                >
+                  {n}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            onClick={handleBackupNow}
+            disabled={busy}
+            className="w-full py-2.5 rounded-xl bg-indigo-600 text-white font-bold active:scale-95 transition-transform disabled:opacity-40"
+          >
+            立即备份
+          </button>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-bold text-gray-500 mb-2 px-1">备份记录</h3>
+          {backups === null ? (
+            <p className="text-center text-sm text-gray-400 mt-8">正在读取...</p>
+          ) : backups.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-48 text-gray-400">
+              <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
+                <History size={24} className="opacity-40" />
+              </div>
+              <p className="text-sm">暂无备份</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-2xl shadow-sm overflow-hidden border border-gray-100">
+              {backups.map((backup, idx) => (
+                <div
+                  key={backup.id}
+                  className={`flex items-center p-4 ${idx !== backups.length - 1 ? 'border-b border-gray-50' : ''}`}
+                >
+                  <div className="flex-1">
+                    <p className="font-medium text-gray-900 text-sm">{formatTime(backup.createdAt)}</p>
+                    <p className="text-xs text-gray-400 mt-0.5">
+                      {BACKUP_REASON_LABELS[backup.reason]} · {backup.recordCount} 条记录
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handlePreview(backup)}
+                    disabled={busy}
+                    className="flex items-center text-xs text-indigo-600 px-2 py-1 disabled:opacity-40"
+                  >
+                    <RotateCcw size={14} className="mr-1" />
+                    恢复
+                  </button>
+                  <button
+                    onClick={() => handleDelete(backup)}
+                    disabled={busy}
+                    className="text-gray-300 hover:text-red-500 transition-colors p-1 disabled:opacity-40"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {pending && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-end justify-center">
+          <div className="bg-white w-full max-w-md rounded-t-3xl p-6 pb-8">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-base font-bold text-gray-900">恢复到 {formatTime(pending.backup.createdAt)}</h3>
+              <button onClick={() => setPending(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="grid grid-cols-4 gap-2 text-center text-xs mb-4">
+              {[
+                { label: '恢复', value: pending.preview.added, color: 'text-green-600' },
+                { label: '删除', value: pending.preview.removed, color: 'text-red-500' },
+                { label: '改回', value: pending.preview.changed, color: 'text-amber-600' },
+                { label: '不变', value: pending.preview.unchanged, color: 'text-gray-500' },
+              ].map(item => (
+                <div key={item.label} className="bg-gray-50 rounded-xl py-2">
+                  <p className={`text-lg font-bold ${item.color}`}>{item.value}</p>
+                  <p className="text-gray-400">{item.label}</p>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mb-4">
+              {pending.preview.settingsChanged.length > 0
+                ? `同时恢复：${pending.preview.settingsChanged.map(s => s.count === undefined ? s.label : `${s.label} (${s.count})`).join('、')}`
+                : '分类、账户、预算和周期规则与当前一致'}
+              。恢复前会自动备份当前数据。
+            </p>
+            <button
+              onClick={handleRestore}
+              disabled={busy}
+              className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold active:scale-95 transition-transform disabled:opacity-40"
+            >
+              确认恢复
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BackupManager;
@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { Budget, BudgetScope, CategoryDef } from '../types';
+import { getActiveCategories } from '../constants';
+import { getMonthKey } from '../services/budgetService';
+import { getMonthOf } from '../services/periodService';
+import { parseMoney, formatCents } from '../services/moneyService';
+
+interface BudgetEditorProps {
+  budgets: Budget[];
+  categories: CategoryDef[];
+  currencySymbol: string;
+  monthStartDay: number;
+  onSave: (budgets: Budget[]) => void;
+  onClose: () => void;
+}
+
+interface DraftRow {
+  amount: string;
+  carryOver: boolean;
+}
+
+const BudgetEditor: React.FC<BudgetEditorProps> = ({ budgets, categories, currencySymbol, monthStartDay, onSave, onClose }) => {
+  const scopes: { id: BudgetScope; label: string }[] = [
+    { id: 'total', label: '总预算' },
+    ...getActiveCategories(categories, 'expense').map(c => ({ id: c.id, label: c.label })),
+  ];
+
+  const [drafts, setDrafts] = useState<Record<string, DraftRow>>(() => {
+    const initial: Record<string, DraftRow> = {};
+    scopes.forEach(({ id }) => {
+      const existing = budgets.find(b => b.category === id);
+      initial[id] = {
+        amount: existing ? formatCents(existing.amount) : '',
+        carryOver: existing ? existing.carryOver : false,
+      };
+    });
+    return initial;
+  });
+
+  const updateDraft = (id: BudgetScope, patch: Partial<DraftRow>) => {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+  };
+
+  const handleSave = () => {
+    const { year, month } = getMonthOf(new Date(), monthStartDay);
+    const currentMonth = getMonthKey(year, month);
+    const next: Budget[] = [];
+
+    if (scopes.some(({ id }) => drafts[id].amount.trim() !== '' && parseMoney(drafts[id].amount) === null)) {
+      alert('预算金额最多保留两位小数');
+      return;
+    }
+
+    scopes.forEach(({ id }) => {
+      const amount = parseMoney(drafts[id].amount);
+      if (!amount || amount <= 0) return;
+      const existing = budgets.find(b => b.category === id);
+      next.push({
+        category: id,
+        amount,
+        carryOver: drafts[id].carryOver,
+        // Keep the original start month so carry-over history stays intact
+        startMonth: existing ? existing.startMonth : currentMonth,
+      });
+    });
+
+    onSave(next);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end justify-center">
+      <div className="bg-white w-full max-w-md rounded-t-3xl max-h-[85vh] flex flex-col">
+        <div className="flex justify-between items-center px-6 pt-5 pb-3 border-b border-gray-100">
+          <h3 className="text-base font-bold text-gray-900">每月预算</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-2 no-scrollbar">
+          {scopes.map(({ id, label }) => (
+            <div key={id} className="flex items-center py-3 border-b border-gray-50 last:border-0">
+              <span className={`w-16 text-sm ${id === 'total' ? 'font-bold text-gray-900' : 'text-gray-700'}`}>{label}</span>
+              <div className="flex-1 flex items-center bg-gray-50 rounded-lg px-3 py-1.5 mx-3">
+                <span className="text-sm text-gray-400 mr-1">{currencySymbol}</span>
+                <input
+                  type="number"
+                  inputMode="decimal"
+                  value={drafts[id].amount}
+                  onChange={(e) => updateDraft(id, { amount: e.target.value })}
+                  placeholder="不限"
+                  className="bg-transparent w-full text-sm outline-none text-gray-700"
+                />
+              </div>
+              <label className="flex items-center space-x-1 text-xs text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={drafts[id].carryOver}
+                  onChange={(e) => updateDraft(id, { carryOver: e.target.checked })}
+                  className="accent-indigo-600"
+                />
+                <span>结转</span>
+              </label>
+            </div>
+          ))}
+          <p className="text-[10px] text-gray-400 py-3">
+            勾选“结转”后，当月未用完的预算会累加到下个月；超支部分不会结转。
+          </p>
+        </div>
+
+        <div className="px-6 pb-8 pt-3">
+          <button
+            onClick={handleSave}
+            className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold active:scale-95 transition-transform"
+          >
+            保存
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BudgetEditor;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import { BudgetStatus } from '../services/budgetService';
+import { formatCents } from '../services/moneyService';
+import { CategoryDef } from '../types';
+import { getCategoryConfig } from '../constants';
+
+interface BudgetPanelProps {
+  statuses: BudgetStatus[];
+  categories: CategoryDef[];
+  currencySymbol: string;
+  hideAmounts?: boolean; // app lock in hidden-amounts mode
+  onEdit: () => void;
+}
+
+export const getProgressColor = (ratio: number) => {
+  if (ratio > 1) return 'bg-red-500';
+  if (ratio >= 0.8) return 'bg-amber-400';
+  return 'bg-indigo-500';
+};
+
+const BudgetRow: React.FC<{ status: BudgetStatus; label: string; symbol: string; hideAmounts?: boolean }> = ({
+  status, label, symbol, hideAmounts
+}) => {
+  const formatAmount = (value: number) => hideAmounts ? '****' : formatCents(value);
+  const overspent = status.remaining < 0;
+  return (
+    <div className="py-2">
+      <div className="flex justify-between items-center text-xs mb-1">
+        <span className="font-medium text-gray-700">
+          {label}
+          {status.carried > 0 && (
+            <span className="ml-1 text-[10px] text-gray-400">(含结转 {symbol}{formatAmount(status.carried)})</span>
+          )}
+        </span>
+        <span className={overspent ? 'font-bold text-red-500' : 'text-gray-500'}>
+          {overspent
+            ? `超支 ${symbol}${formatAmount(-status.remaining)}`
+            : `剩余 ${symbol}${formatAmount(status.remaining)}`}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all ${getProgressColor(status.ratio)}`}
+          style={{ width: `${Math.min(status.ratio, 1) * 100}%` }}
+        />
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-400 mt-0.5">
+        <span>已用 {symbol}{formatAmount(status.spent)}</span>
+        <span>预算 {symbol}{formatAmount(status.limit)}</span>
+      </div>
+    </div>
+  );
+};
+
+const BudgetPanel: React.FC<BudgetPanelProps> = ({ statuses, categories, currencySymbol, hideAmounts, onEdit }) => {
+  const totalStatus = statuses.find(s => s.budget.category === 'total');
+  const categoryStatuses = statuses
+    .filter(s => s.budget.category !== 'total')
+    .sort((a, b) => b.ratio - a.ratio);
+
+  return (
+    <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 mx-1">
+      <div className="flex justify-between items-center mb-1">
+        <h3 className="text-xs font-bold text-gray-400">本月预算</h3>
+        <button
+          onClick={onEdit}
+          className="p-1 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+        >
+          <Settings2 size={16} />
+        </button>
+      </div>
+
+      {statuses.length === 0 ? (
+        <button onClick={onEdit} className="w-full py-4 text-xs text-gray-400">
+          尚未设置预算，点击设置
+        </button>
+      ) : (
+        <>
+          {totalStatus && <BudgetRow status={totalStatus} label="总预算" symbol={currencySymbol} hideAmounts={hideAmounts} />}
+          {categoryStatuses.map(s => (
+            <BudgetRow key={s.budget.category} status={s} label={getCategoryConfig(s.budget.category, categories).label} symbol={currencySymbol} hideAmounts={hideAmounts} />
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BudgetPanel;
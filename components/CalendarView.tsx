@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { fromCents, formatCents, sumMoney } from '../services/moneyService';
+import { toDateKey } from '../services/dateService';
+import { Period, WEEKDAY_LABELS } from '../services/periodService';
+import { DayTotal, HEAT_LEVELS, getCalendarWeeks, getHeatLevel } from '../services/calendarService';
+
+interface CalendarViewProps {
+  layout: 'month' | 'year';
+  period: Period;
+  totals: Map<string, DayTotal>; // by YYYY-MM-DD, in the base currency
+  weekStartDay: number;
+  currencySymbol: string;
+  hideAmounts?: boolean;
+  onSelectDay: (dateKey: string) => void;
+}
+
+type Metric = 'expense' | 'income';
+
+// Background per heat level, 0 = nothing recorded
+const SHADES: Record<Metric, string[]> = {
+  expense: ['bg-gray-50', 'bg-indigo-100', 'bg-indigo-200', 'bg-indigo-400', 'bg-indigo-600'],
+  income: ['bg-gray-50', 'bg-green-100', 'bg-green-200', 'bg-green-400', 'bg-green-600'],
+};
+
+// Whole currency units, ten thousands as 万, to fit a calendar cell
+const formatCompact = (cents: number) => {
+  const value = fromCents(cents);
+  return value >= 10000 ? `${(value / 10000).toFixed(1)}万` : Math.round(value).toString();
+};
+
+// Month calendar or year heatmap of daily totals, shaded by the busiest day of the period
+const CalendarView: React.FC<CalendarViewProps> = ({
+  layout, period, totals, weekStartDay, currencySymbol, hideAmounts, onSelectDay
+}) => {
+  const [metric, setMetric] = useState<Metric>('expense');
+  const weeks = getCalendarWeeks(period, weekStartDay);
+  const days = weeks.flat().filter((d): d is Date => d !== null);
+  const amountOf = (day: Date) => totals.get(toDateKey(day))?.[metric] || 0;
+  const amounts = days.map(amountOf);
+  const max = Math.max(0, ...amounts);
+  const total = sumMoney(amounts);
+  const activeDays = amounts.filter(a => a > 0).length;
+  const todayKey = toDateKey(new Date());
+  const weekdays = Array.from({ length: 7 }, (_, i) => WEEKDAY_LABELS[(weekStartDay + i) % 7]);
+
+  const header = (
+    <div className="flex justify-between items-center mb-3">
+      <div className="text-xs text-gray-400">
+        {metric === 'expense' ? '支出' : '收入'} {currencySymbol}{hideAmounts ? '****' : formatCents(total)}
+        <span className="ml-2">{activeDays} 天有记录</span>
+      </div>
+      <div className="bg-gray-100 p-0.5 rounded-lg flex space-x-0.5">
+        {(['expense', 'income'] as Metric[]).map(m => (
+          <button
+            key={m}
+            onClick={() => setMetric(m)}
+            className={`px-2.5 py-0.5 rounded-md text-[10px] font-medium transition-all ${
+              metric === m ? 'bg-white shadow text-gray-900' : 'text-gray-400'
+            }`}
+          >
+            {m === 'expense' ? '支出' : '收入'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (layout === 'month') {
+    return (
+      <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-3">
+        {header}
+        <div className="grid grid-cols-7 gap-1 text-center text-[10px] text-gray-400 mb-1">
+          {weekdays.map(label => <span key={label}>{label.slice(1)}</span>)}
+        </div>
+        <div className="grid grid-cols-7 gap-1">
+          {weeks.flat().map((day, i) => {
+            if (!day) return <div key={i} />;
+            const dateKey = toDateKey(day);
+            const amount = amountOf(day);
+            const level = getHeatLevel(amount, max);
+            return (
+              <button
+                key={dateKey}
+                onClick={() => onSelectDay(dateKey)}
+                className={`h-12 rounded-lg flex flex-col items-center justify-center ${SHADES[metric][level]} ${
+                  level >= HEAT_LEVELS - 1 ? 'text-white' : 'text-gray-700'
+                } ${dateKey === todayKey ? 'ring-2 ring-indigo-500' : ''}`}
+              >
+                <span className="text-xs font-medium">{day.getDate()}</span>
+                {amount > 0 && !hideAmounts && (
+                  <span className={`text-[9px] ${level >= HEAT_LEVELS - 1 ? 'text-white/90' : 'text-gray-500'}`}>
+                    {formatCompact(amount)}
+                  </span>
+                )}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    );
+  }
+
+  // Year heatmap: one column per week, one row per weekday
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-3">
+      {header}
+      <div className="flex overflow-x-auto no-scrollbar">
+        <div className="flex flex-col gap-[3px] mr-1 pt-4 text-[9px] text-gray-400">
+          {weekdays.map((label, i) => (
+            <span key={label} className="h-[11px] leading-[11px]">{i % 2 === 1 ? label.slice(1) : ''}</span>
+          ))}
+        </div>
+        <div className="flex gap-[3px]">
+          {weeks.map((week, column) => {
+            // Label the columns where a month begins
+            const first = week.find(d => d && (d.getDate() === 1 || d.getTime() === period.start.getTime()));
+            return (
+              <div key={column} className="flex flex-col gap-[3px]">
+                <span className="h-[13px] text-[9px] text-gray-400 whitespace-nowrap">
+                  {first ? `${first.getMonth() + 1}月` : ''}
+                </span>
+                {week.map((day, row) => {
+                  if (!day) return <div key={row} className="w-[11px] h-[11px]" />;
+                  const dateKey = toDateKey(day);
+                  const level = getHeatLevel(amountOf(day), max);
+                  return (
+                    <button
+                      key={dateKey}
+                      onClick={() => onSelectDay(dateKey)}
+                      title={dateKey}
+                      className={`w-[11px] h-[11px] rounded-sm ${level === 0 ? 'bg-gray-100' : SHADES[metric][level]} ${
+                        dateKey === todayKey ? 'ring-1 ring-gray-700' : ''
+                      }`}
+                    />
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div className="flex items-center justify-end space-x-1 mt-2 text-[9px] text-gray-400">
+        <span>少</span>
+        {SHADES[metric].map((shade, level) => (
+          <span key={shade} className={`w-[11px] h-[11px] rounded-sm ${level === 0 ? 'bg-gray-100' : shade}`} />
+        ))}
+        <span>多</span>
+      </div>
+    </div>
+  );
+};
+
+export default CalendarView;
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { ResponsiveContainer, Tooltip as RechartsTooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid } from 'recharts';
+import { ChevronLeft, ChevronRight, Split } from 'lucide-react';
+import { Expense, CategoryDef, PeriodSettings } from '../types';
+import { getCategoryConfig, CategoryIcon } from '../constants';
+import { fromCents, formatCents, sumMoney, percentOf } from '../services/moneyService';
+import { getCategoryShares } from '../services/splitService';
+import { toDateKey } from '../services/dateService';
+import { TimeRange, Period, formatPeriod, getBucketUnit, getBucketIndex, getBucketLabels } from '../services/periodService';
+
+interface CategoryDetailProps {
+  category: string;
+  type: 'expense' | 'income';
+  expenses: Expense[]; // records of the period, in the base currency
+  range: TimeRange;
+  period: Period;
+  periodSettings: PeriodSettings;
+  total: number; // all records of the type in the period, for the share
+  categories: CategoryDef[];
+  currencySymbol: string;
+  hideAmounts?: boolean; // app lock in hidden-amounts mode
+  onEdit: (id: string) => void;
+  onClose: () => void;
+}
+
+type SortKey = 'amount' | 'date';
+
+// How many of the largest records are highlighted
+const TOP_COUNT = 3;
+
+// One category within the statistics period: its trend, totals and the records behind them.
+// Split records contribute only their line for this category.
+const CategoryDetail: React.FC<CategoryDetailProps> = ({
+  category, type, expenses, range, period, periodSettings, total, categories, currencySymbol, hideAmounts, onEdit, onClose
+}) => {
+  const [sortKey, setSortKey] = useState<SortKey>('amount');
+  const config = getCategoryConfig(category, categories);
+  const formatAmount = (value: number) => hideAmounts ? '****' : formatCents(value);
+
+  const items = useMemo(() => expenses
+    .filter(e => e.type === type)
+    .map(expense => ({ expense, amount: getCategoryShares(expense).find(line => line.category === category)?.amount || 0 }))
+    .filter(item => item.amount > 0),
+    [expenses, type, category]
+  );
+
+  const sum = sumMoney(items.map(item => item.amount));
+  const average = items.length > 0 ? Math.round(sum / items.length) : 0;
+  const largest = [...items].sort((a, b) => b.amount - a.amount).slice(0, TOP_COUNT);
+  const sorted = sortKey === 'amount'
+    ? [...items].sort((a, b) => b.amount - a.amount || b.expense.date - a.expense.date)
+    : [...items].sort((a, b) => b.expense.date - a.expense.date);
+
+  const trendData = useMemo(() => {
+    const unit = getBucketUnit(range, period);
+    const data = getBucketLabels(range, period, unit, periodSettings).map(name => ({ name, amount: 0 }));
+    items.forEach(item => {
+      const row = data[getBucketIndex(new Date(item.expense.date), period, unit, periodSettings)];
+      if (row) row.amount += item.amount;
+    });
+    return data.map(d => ({ ...d, amount: fromCents(d.amount) }));
+  }, [items, range, period, periodSettings]);
+
+  const renderRow = (item: typeof items[number], className = '') => (
+    <button
+      key={item.expense.id}
+      onClick={() => onEdit(item.expense.id)}
+      className={`w-full flex items-center justify-between py-3 text-left ${className}`}
+    >
+      <div className="min-w-0">
+        <p className="text-sm text-gray-900 truncate flex items-center">
+          {item.expense.note || config.label}
+          {item.expense.splits && <Split size={12} className="ml-1 text-gray-300 flex-shrink-0" />}
+        </p>
+        <p className="text-xs text-gray-400">{toDateKey(new Date(item.expense.date))}</p>
+      </div>
+      <div className="flex items-center ml-2 flex-shrink-0">
+        <span className={`font-bold text-sm ${type === 'income' ? 'text-green-600' : 'text-gray-900'}`}>
+          {currencySymbol}{formatAmount(item.amount)}
+        </span>
+        <ChevronRight size={14} className="ml-1 text-gray-300" />
+      </div>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 max-w-md mx-auto flex flex-col">
+      <div className="bg-white px-4 py-4 shadow-sm border-b border-gray-100 flex items-center">
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <div className="flex-1 flex flex-col items-center -ml-8">
+          <h2 className="text-base font-bold text-gray-900 flex items-center">
+            <span className={`p-1 rounded-full mr-1.5 ${config.color} bg-opacity-20`}>
+              <CategoryIcon icon={config.icon} size={14} />
+            </span>
+            {config.label}
+          </h2>
+          <span className="text-xs text-gray-400">{formatPeriod(range, period)}</span>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 pb-10 no-scrollbar space-y-4">
+        <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 grid grid-cols-3 gap-2 text-center">
+          <div>
+            <p className="text-gray-400 text-xs mb-1">{type === 'expense' ? '支出' : '收入'}</p>
+            <p className="text-sm font-bold text-gray-900">{currencySymbol}{formatAmount(sum)}</p>
+            <p className="text-[10px] text-gray-400">占比 {percentOf(sum, total).toFixed(1)}%</p>
+          </div>
+          <div>
+            <p className="text-gray-400 text-xs mb-1">笔数</p>
+            <p className="text-sm font-bold text-gray-900">{items.length}</p>
+          </div>
+          <div>
+            <p className="text-gray-400 text-xs mb-1">平均每笔</p>
+            <p className="text-sm font-bold text-gray-900">{currencySymbol}{formatAmount(average)}</p>
+          </div>
+        </div>
+
+        {trendData.length > 1 && (
+          <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex flex-col h-56">
+            <h3 className="text-xs font-bold text-gray-400 mb-4">趋势</h3>
+            <div className="flex-1">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={trendData} margin={{ top: 5, right: 5, bottom: 5, left: -20 }}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+                  <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#9CA3AF' }} minTickGap={8} />
+                  <YAxis axisLine={false} tickLine={false} tick={hideAmounts ? false : { fontSize: 10, fill: '#9CA3AF' }} />
+                  <RechartsTooltip
+                    formatter={(value: number) => `${currencySymbol}${hideAmounts ? '****' : value.toFixed(2)}`}
+                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }}
+                    cursor={{ fill: '#F3F4F6' }}
+                  />
+                  <Bar dataKey="amount" name={config.label} fill={type === 'income' ? '#22C55E' : '#4F46E5'} radius={[4, 4, 0, 0]} maxBarSize={30} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+
+        {items.length > TOP_COUNT && (
+          <div className="bg-white px-4 pt-3 rounded-2xl shadow-sm border border-gray-100">
+            <h3 className="text-xs font-bold text-gray-400">最大的 {TOP_COUNT} 笔</h3>
+            <div className="divide-y divide-gray-50">
+              {largest.map(item => renderRow(item))}
+            </div>
+          </div>
+        )}
+
+        <div className="bg-white px-4 pt-3 rounded-2xl shadow-sm border border-gray-100">
+          <div className="flex justify-between items-center">
+            <h3 className="text-xs font-bold text-gray-400">明细</h3>
+            <div className="bg-gray-100 p-0.5 rounded-lg flex space-x-0.5">
+              {(['amount', 'date'] as SortKey[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setSortKey(key)}
+                  className={`px-2.5 py-0.5 rounded-md text-[10px] font-medium transition-all ${
+                    sortKey === key ? 'bg-white shadow text-gray-900' : 'text-gray-400'
+                  }`}
+                >
+                  {key === 'amount' ? '按金额' : '按日期'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {sorted.length === 0 ? (
+            <p className="text-center text-sm text-gray-400 py-8">该时段暂无数据</p>
+          ) : (
+            <div className="divide-y divide-gray-50">
+              {sorted.map(item => renderRow(item))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CategoryDetail;
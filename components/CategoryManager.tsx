@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronUp, ChevronDown, Archive, ArchiveRestore, Plus, X } from 'lucide-react';
+import { CategoryDef, TransactionType } from '../types';
+import { CATEGORY_ICONS, CATEGORY_COLORS, CategoryIcon } from '../constants';
+
+interface CategoryManagerProps {
+  categories: CategoryDef[];
+  onChange: (categories: CategoryDef[]) => void;
+  onClose: () => void;
+}
+
+const CategoryManager: React.FC<CategoryManagerProps> = ({ categories, onChange, onClose }) => {
+  const [type, setType] = useState<TransactionType>('expense');
+  // Category currently open in the editor sheet; a new one has no match in `categories`
+  const [editing, setEditing] = useState<CategoryDef | null>(null);
+
+  const visible = categories.filter(c => c.type === type);
+
+  const move = (id: string, direction: -1 | 1) => {
+    // Swap with the neighbour of the same type, leaving the other type's order untouched
+    const index = visible.findIndex(c => c.id === id);
+    const neighbour = visible[index + direction];
+    if (!neighbour) return;
+
+    const next = [...categories];
+    const a = next.findIndex(c => c.id === id);
+    const b = next.findIndex(c => c.id === neighbour.id);
+    [next[a], next[b]] = [next[b], next[a]];
+    onChange(next);
+  };
+
+  const toggleArchived = (cat: CategoryDef) => {
+    if (!cat.archived && visible.filter(c => !c.archived).length <= 1) {
+      alert('至少需要保留一个可用分类');
+      return;
+    }
+    onChange(categories.map(c => c.id === cat.id ? { ...c, archived: !c.archived } : c));
+  };
+
+  const startCreate = () => {
+    setEditing({
+      id: `custom_${Date.now()}`,
+      label: '',
+      icon: 'more',
+      color: CATEGORY_COLORS[0],
+      type,
+    });
+  };
+
+  const saveEditing = () => {
+    if (!editing) return;
+    const label = editing.label.trim();
+    if (!label) {
+      alert('请输入分类名称');
+      return;
+    }
+    const saved = { ...editing, label };
+    const exists = categories.some(c => c.id === saved.id);
+    onChange(exists ? categories.map(c => c.id === saved.id ? saved : c) : [...categories, saved]);
+    setEditing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 max-w-md mx-auto flex flex-col">
+      <div className="bg-white px-4 py-4 shadow-sm border-b border-gray-100 flex items-center">
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <h2 className="flex-1 text-center text-base font-bold text-gray-900 -ml-8">分类管理</h2>
+      </div>
+
+      <div className="flex justify-center py-4">
+        <div className="bg-gray-100 p-1 rounded-xl flex space-x-1">
+          {(['expense', 'income'] as TransactionType[]).map(t => (
+            <button
+              key={t}
+              onClick={() => setType(t)}
+              className={`px-6 py-1.5 rounded-lg text-sm font-bold transition-all ${
+                type === t ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-400 hover:text-gray-600'
+              }`}
+            >
+              {t === 'expense' ? '支出' : '收入'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 pb-10 no-scrollbar">
+        <div className="bg-white rounded-2xl shadow-sm overflow-hidden border border-gray-100">
+          {visible.map((cat, idx) => (
+            <div
+              key={cat.id}
+              className={`flex items-center p-3 ${idx !== visible.length - 1 ? 'border-b border-gray-50' : ''} ${cat.archived ? 'opacity-40' : ''}`}
+            >
+              <button onClick={() => setEditing(cat)} className="flex-1 flex items-center text-left">
+                <div className={`p-2 rounded-full mr-3 ${cat.color}`}>
+                  <CategoryIcon icon={cat.icon} size={18} />
+                </div>
+                <span className="font-medium text-gray-900">{cat.label}</span>
+                {cat.archived && <span className="ml-2 text-[10px] text-gray-400">已归档</span>}
+              </button>
+              <button onClick={() => move(cat.id, -1)} disabled={idx === 0} className="p-1.5 text-gray-400 disabled:opacity-30">
+                <ChevronUp size={16} />
+              </button>
+              <button onClick={() => move(cat.id, 1)} disabled={idx === visible.length - 1} className="p-1.5 text-gray-400 disabled:opacity-30">
+                <ChevronDown size={16} />
+              </button>
+              <button onClick={() => toggleArchived(cat)} className="p-1.5 text-gray-400 hover:text-indigo-600">
+                {cat.archived ? <ArchiveRestore size={16} /> : <Archive size={16} />}
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={startCreate}
+          className="w-full mt-4 py-3 flex items-center justify-center space-x-1 rounded-xl border border-dashed border-gray-300 text-sm text-gray-500 hover:bg-white"
+        >
+          <Plus size={16} />
+          <span>新建分类</span>
+        </button>
+        <p className="text-[10px] text-gray-400 mt-2 text-center">
+          归档后的分类不会出现在记账页面，已有记录仍保留原分类
+        </p>
+      </div>
+
+      {editing && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-end justify-center">
+          <div className="bg-white w-full max-w-md rounded-t-3xl max-h-[85vh] flex flex-col">
+            <div className="flex justify-between items-center px-6 pt-5 pb-3 border-b border-gray-100">
+              <h3 className="text-base font-bold text-gray-900">
+                {categories.some(c => c.id === editing.id) ? '编辑分类' : '新建分类'}
+              </h3>
+              <button onClick={() => setEditing(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                <X size={20} />
+              </button>
+            </div>
+
+            <div className="flex-1 overflow-y-auto px-6 py-4 no-scrollbar">
+              <div className="flex items-center mb-4">
+                <div className={`p-3 rounded-full mr-3 ${editing.color}`}>
+                  <CategoryIcon icon={editing.icon} size={22} />
+                </div>
+                <input
+                  type="text"
+                  value={editing.label}
+                  onChange={(e) => setEditing({ ...editing, label: e.target.value })}
+                  placeholder="分类名称"
+                  maxLength={6}
+                  className="flex-1 bg-gray-50 rounded-lg px-3 py-2 text-sm outline-none text-gray-700"
+                />
+              </div>
+
+              <h4 className="text-xs font-medium text-gray-500 mb-2">图标</h4>
+              <div className="grid grid-cols-8 gap-2 mb-4">
+                {Object.keys(CATEGORY_ICONS).map(key => (
+                  <button
+                    key={key}
+                    onClick={() => setEditing({ ...editing, icon: key })}
+                    className={`p-2 rounded-lg flex items-center justify-center ${
+                      editing.icon === key ? 'bg-indigo-600 text-white' : 'bg-gray-50 text-gray-500'
+                    }`}
+                  >
+                    <CategoryIcon icon={key} size={18} />
+                  </button>
+                ))}
+              </div>
+
+              <h4 className="text-xs font-medium text-gray-500 mb-2">颜色</h4>
+              <div className="grid grid-cols-7 gap-2">
+                {CATEGORY_COLORS.map(color => (
+                  <button
+                    key={color}
+                    onClick={() => setEditing({ ...editing, color })}
+                    className={`h-8 rounded-full ${color} ${editing.color === color ? 'ring-2 ring-offset-2 ring-indigo-500' : ''}`}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="px-6 pb-8 pt-3">
+              <button
+                onClick={saveEditing}
+                className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold active:scale-95 transition-transform"
+              >
+                保存
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategoryManager;
@@ -0,0 +1,344 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft } from 'lucide-react';
+import { Expense, CategoryDef, Account } from '../types';
+import { getActiveCategories, getCategoryConfig } from '../constants';
+import { toDateKey } from '../services/dateService';
+import { CURRENCIES } from '../services/currencyService';
+import { toCents } from '../services/moneyService';
+import {
+  CsvPreset, CsvEncoding, CsvOptions, CsvMapping, DateFormat,
+  PRESET_LABELS, MAPPING_FIELDS,
+  decodeCsv, parseCsv, detectPreset, buildDefaultOptions, applyDetection, parseRows,
+  guessCategory, findDuplicateLines
+} from '../services/csvService';
+
+interface CsvImportWizardProps {
+  file: File;
+  expenses: Expense[];
+  categories: CategoryDef[];
+  accounts: Account[];
+  baseCurrency: string;
+  onImport: (records: Expense[]) => void;
+  onClose: () => void;
+}
+
+const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  ymd: '年-月-日',
+  dmy: '日/月/年',
+  mdy: '月/日/年',
+};
+
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ file, expenses, categories, accounts, baseCurrency, onImport, onClose }) => {
+  const [buffer, setBuffer] = useState<ArrayBuffer | null>(null);
+  const [encoding, setEncoding] = useState<CsvEncoding | 'auto'>('auto');
+  const [preset, setPreset] = useState<CsvPreset | null>(null);
+  const [options, setOptions] = useState<CsvOptions | null>(null);
+  const [step, setStep] = useState<'mapping' | 'preview'>('mapping');
+  const [accountId, setAccountId] = useState(accounts.find(a => !a.archived)?.id || '');
+  const [currency, setCurrency] = useState(baseCurrency);
+  // Per-line overrides of the default selection and guessed category
+  const [selected, setSelected] = useState<Record<number, boolean>>({});
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<number, string>>({});
+
+  useEffect(() => {
+    file.arrayBuffer()
+      .then(setBuffer)
+      .catch(e => {
+        console.error(e);
+        alert('读取文件失败');
+        onClose();
+      });
+  }, [file]);
+
+  const decoded = useMemo(() => buffer ? decodeCsv(buffer, encoding) : null, [buffer, encoding]);
+  const rows = useMemo(() => decoded ? parseCsv(decoded.text) : [], [decoded]);
+
+  // Detect the source once the file is decoded, and rebuild the mapping when the preset changes
+  useEffect(() => {
+    if (rows.length === 0) return;
+    const nextPreset = preset || detectPreset(rows);
+    if (!preset) setPreset(nextPreset);
+    setOptions(buildDefaultOptions(rows, nextPreset));
+  }, [rows, preset]);
+
+  const parsed = useMemo(() => options ? parseRows(rows, options) : [], [rows, options]);
+  const duplicates = useMemo(() => findDuplicateLines(parsed, expenses, currency), [parsed, expenses, currency]);
+
+  if (!options || !preset) {
+    return (
+      <div className="fixed inset-0 z-40 bg-gray-50 max-w-md mx-auto flex items-center justify-center text-sm text-gray-400">
+        正在读取文件...
+      </div>
+    );
+  }
+
+  const header = rows[options.headerRow] || [];
+  const sampleRow = rows[options.headerRow + 1] || [];
+
+  const updateMapping = (key: keyof CsvMapping, value: number) => {
+    setOptions(applyDetection(rows, { ...options, mapping: { ...options.mapping, [key]: value } }));
+  };
+
+  const isSelectable = (line: number) => {
+    const row = parsed.find(r => r.line === line);
+    return !!row && !row.error && !row.ignored;
+  };
+  const isSelected = (line: number) =>
+    isSelectable(line) && (selected[line] ?? !duplicates.has(line));
+
+  const categoryFor = (line: number) => {
+    const row = parsed.find(r => r.line === line)!;
+    return categoryOverrides[line] || guessCategory(row, row.type!, categories);
+  };
+
+  const importable = parsed.filter(r => isSelected(r.line));
+  const errorCount = parsed.filter(r => r.error).length;
+  const ignoredCount = parsed.filter(r => r.ignored).length;
+
+  const handleImport = () => {
+    const now = Date.now();
+    const records: Expense[] = importable.map(row => ({
+      id: `${now}_${row.line}`,
+      amount: toCents(row.amount!),
+      currency,
+      type: row.type!,
+      category: categoryFor(row.line),
+      note: [row.merchant, row.note].filter((v, i, arr) => v && v !== '/' && arr.indexOf(v) === i).join(' '),
+      date: row.date!,
+      accountId,
+    }));
+    onImport(records);
+  };
+
+  const mappingValid = options.mapping.date !== -1 && options.mapping.amount !== -1;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 max-w-md mx-auto flex flex-col">
+      <div className="bg-white px-4 py-4 shadow-sm border-b border-gray-100 flex items-center">
+        <button
+          onClick={step === 'preview' ? () => setStep('mapping') : onClose}
+          className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors"
+        >
+          <ChevronLeft size={20} />
+        </button>
+        <h2 className="flex-1 text-center text-base font-bold text-gray-900 -ml-8">
+          {step === 'mapping' ? '导入 CSV · 列对应' : '导入 CSV · 预览'}
+        </h2>
+      </div>
+
+      {step === 'mapping' ? (
+        <div className="flex-1 overflow-y-auto p-4 pb-10 no-scrollbar space-y-4 text-sm">
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 space-y-3">
+            <p className="text-xs text-gray-400 truncate">{file.name} · {rows.length} 行 · {decoded?.encoding.toUpperCase()}</p>
+            <label className="flex justify-between items-center">
+              <span className="text-gray-500">账单来源</span>
+              <select
+                value={preset}
+                onChange={(e) => setPreset(e.target.value as CsvPreset)}
+                className="bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+              >
+                {(Object.keys(PRESET_LABELS) as CsvPreset[]).map(p => (
+                  <option key={p} value={p}>{PRESET_LABELS[p]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex justify-between items-center">
+              <span className="text-gray-500">文件编码</span>
+              <select
+                value={encoding}
+                onChange={(e) => setEncoding(e.target.value as CsvEncoding | 'auto')}
+                className="bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+              >
+                <option value="auto">自动识别</option>
+                <option value="utf-8">UTF-8</option>
+                <option value="gbk">GBK</option>
+              </select>
+            </label>
+            <label className="flex justify-between items-center">
+              <span className="text-gray-500">表头所在行</span>
+              <input
+                type="number"
+                min={1}
+                max={rows.length}
+                value={options.headerRow + 1}
+                onChange={(e) => {
+                  const headerRow = Math.max(0, Math.min(rows.length - 1, (parseInt(e.target.value, 10) || 1) - 1));
+                  setOptions(applyDetection(rows, { ...options, headerRow }));
+                }}
+                className="w-16 bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700 text-right"
+              />
+            </label>
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 space-y-3">
+            <h3 className="text-xs font-bold text-gray-400">列对应</h3>
+            {MAPPING_FIELDS.map(field => (
+              <label key={field.key} className="flex justify-between items-center">
+                <span className="text-gray-500">
+                  {field.label}{field.required && <span className="text-red-500">*</span>}
+                </span>
+                <select
+                  value={options.mapping[field.key]}
+                  onChange={(e) => updateMapping(field.key, Number(e.target.value))}
+                  className="max-w-[60%] bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+                >
+                  <option value={-1}>不使用</option>
+                  {header.map((h, i) => (
+                    <option key={i} value={i}>
+                      {h || `第${i + 1}列`}{sampleRow[i] ? ` (例: ${sampleRow[i].slice(0, 12)})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 space-y-3">
+            <h3 className="text-xs font-bold text-gray-400">格式</h3>
+            <label className="flex justify-between items-center">
+              <span className="text-gray-500">日期格式</span>
+              <select
+                value={options.dateFormat}
+                onChange={(e) => setOptions({ ...options, dateFormat: e.target.value as DateFormat })}
+                className="bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+              >
+                {(Object.keys(DATE_FORMAT_LABELS) as DateFormat[]).map(f => (
+                  <option key={f} value={f}>{DATE_FORMAT_LABELS[f]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex justify-between items-center">
+              <span className="text-gray-500">小数点为逗号 (1.234,56)</span>
+              <input
+                type="checkbox"
+                checked={options.decimalComma}
+                onChange={(e) => setOptions({ ...options, decimalComma: e.target.checked })}
+                className="accent-indigo-600"
+              />
+            </label>
+            <label className="flex justify-between items-center">
+              <span className="text-gray-500">正数为支出 (信用卡账单)</span>
+              <input
+                type="checkbox"
+                checked={options.invertSign}
+                onChange={(e) => setOptions({ ...options, invertSign: e.target.checked })}
+                className="accent-indigo-600"
+              />
+            </label>
+            <label className="flex justify-between items-center">
+              <span className="text-gray-500">导入到账户</span>
+              <select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                className="bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+              >
+                {accounts.filter(a => !a.archived).map(a => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex justify-between items-center">
+              <span className="text-gray-500">币种</span>
+              <select
+                value={currency}
+                onChange={(e) => setCurrency(e.target.value)}
+                className="bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+              >
+                {CURRENCIES.map(c => (
+                  <option key={c.code} value={c.code}>{c.code} {c.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <button
+            onClick={() => setStep('preview')}
+            disabled={!mappingValid}
+            className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold active:scale-95 transition-transform disabled:opacity-40"
+          >
+            下一步：预览
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="px-4 py-2 text-xs text-gray-500 bg-white border-b border-gray-100 flex justify-between">
+            <span>已选 {importable.length} / {parsed.length} 条</span>
+            <span>
+              重复 {duplicates.size} · 忽略 {ignoredCount} · 错误 {errorCount}
+            </span>
+          </div>
+          <div className="flex-1 overflow-y-auto px-2 pb-28 no-scrollbar">
+            <table className="w-full text-xs">
+              <tbody>
+                {parsed.map(row => {
+                  const selectable = isSelectable(row.line);
+                  const isDuplicate = duplicates.has(row.line);
+                  return (
+                    <tr
+                      key={row.line}
+                      className={`border-b border-gray-100 ${
+                        row.error ? 'bg-red-50' : row.ignored ? 'opacity-40' : isDuplicate ? 'bg-amber-50' : 'bg-white'
+                      }`}
+                    >
+                      <td className="py-2 pl-2">
+                        <input
+                          type="checkbox"
+                          disabled={!selectable}
+                          checked={isSelected(row.line)}
+                          onChange={(e) => setSelected({ ...selected, [row.line]: e.target.checked })}
+                          className="accent-indigo-600"
+                        />
+                      </td>
+                      <td className="py-2 px-1 whitespace-nowrap text-gray-500">
+                        {row.date !== undefined ? toDateKey(new Date(row.date)).slice(2) : '-'}
+                      </td>
+                      <td className="py-2 px-1 max-w-[110px]">
+                        <p className="truncate text-gray-700">{row.merchant || row.note || '-'}</p>
+                        <p className="text-[10px] truncate">
+                          {row.error && <span className="text-red-500">第{row.line}行: {row.error}</span>}
+                          {row.ignored && <span className="text-gray-400">忽略: {row.ignored}</span>}
+                          {!row.error && !row.ignored && isDuplicate && <span className="text-amber-600">疑似重复</span>}
+                        </p>
+                      </td>
+                      <td className="py-2 px-1">
+                        {selectable && (
+                          <select
+                            value={categoryFor(row.line)}
+                            onChange={(e) => setCategoryOverrides({ ...categoryOverrides, [row.line]: e.target.value })}
+                            className="bg-gray-50 rounded px-1 py-0.5 outline-none text-gray-700 max-w-[72px]"
+                          >
+                            {getActiveCategories(categories, row.type!).map(c => (
+                              <option key={c.id} value={c.id}>{c.label}</option>
+                            ))}
+                            {/* Keep a guessed archived category visible */}
+                            {!getActiveCategories(categories, row.type!).some(c => c.id === categoryFor(row.line)) && (
+                              <option value={categoryFor(row.line)}>{getCategoryConfig(categoryFor(row.line), categories).label}</option>
+                            )}
+                          </select>
+                        )}
+                      </td>
+                      <td className={`py-2 pr-2 text-right font-bold whitespace-nowrap ${row.type === 'income' ? 'text-green-600' : 'text-gray-900'}`}>
+                        {row.amount !== undefined ? `${row.type === 'income' ? '+' : row.type === 'expense' ? '-' : ''}${row.amount.toFixed(2)}` : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="absolute bottom-0 w-full max-w-md px-4 pb-8 pt-3 bg-gray-50">
+            <button
+              onClick={handleImport}
+              disabled={importable.length === 0}
+              className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold active:scale-95 transition-transform disabled:opacity-40"
+            >
+              导入 {importable.length} 条记录
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CsvImportWizard;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { ChevronLeft, Trash2 } from 'lucide-react';
+import { CurrencySettings, ExchangeRate } from '../types';
+import { CURRENCIES, findRate } from '../services/currencyService';
+import { toDateKey } from '../services/dateService';
+
+interface CurrencyManagerProps {
+  settings: CurrencySettings;
+  missingRates: string[]; // currencies used by records that no rate converts
+  hasBaseAmounts: boolean; // budgets or opening balances exist, which are kept in the base currency
+  onChange: (settings: CurrencySettings) => void;
+  onBaseChange: (baseCurrency: string, rate: number) => void; // also converts budgets and opening balances
+  onClose: () => void;
+}
+
+const currencyLabel = (code: string) => {
+  const currency = CURRENCIES.find(c => c.code === code);
+  return currency ? `${code} ${currency.label}` : code;
+};
+
+const CurrencyManager: React.FC<CurrencyManagerProps> = ({ settings, missingRates, hasBaseAmounts, onChange, onBaseChange, onClose }) => {
+  const foreign = CURRENCIES.filter(c => c.code !== settings.baseCurrency);
+  const [currency, setCurrency] = useState(missingRates[0] || foreign[0].code);
+  const [date, setDate] = useState(toDateKey(new Date()));
+  const [rate, setRate] = useState('');
+
+  const sortedRates = [...settings.rates].sort((a, b) =>
+    a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date)
+  );
+
+  // Budgets and opening balances are converted at today's rate, so switching needs one
+  const handleBaseChange = (baseCurrency: string) => {
+    const from = settings.baseCurrency;
+    const rate = findRate(settings.rates, from, baseCurrency, toDateKey(new Date()));
+    if (hasBaseAmounts) {
+      if (rate === null) {
+        alert(`请先添加 ${baseCurrency} 对 ${from} 的汇率，预算和账户期初余额需要按汇率换算`);
+        return;
+      }
+      if (!confirm(`预算和账户期初余额将按 1 ${from} = ${Number(rate.toFixed(6))} ${baseCurrency} 换算，确定切换基准货币吗?`)) return;
+    }
+    onBaseChange(baseCurrency, rate ?? 1);
+    if (currency === baseCurrency) setCurrency(CURRENCIES.find(c => c.code !== baseCurrency)!.code);
+  };
+
+  const handleAdd = () => {
+    const value = parseFloat(rate);
+    if (!(value > 0)) {
+      alert('请输入有效的汇率');
+      return;
+    }
+    const entry: ExchangeRate = { id: Date.now().toString(), currency, base: settings.baseCurrency, rate: value, date };
+    // One entry per currency pair and day: a new rate for the same day replaces the old one
+    const rates = settings.rates.filter(r => !(r.currency === currency && r.base === entry.base && r.date === date));
+    onChange({ ...settings, rates: [...rates, entry] });
+    setRate('');
+  };
+
+  const handleDelete = (entry: ExchangeRate) => {
+    if (confirm(`确定删除 ${entry.date} 的 ${entry.currency} 汇率吗?`)) {
+      onChange({ ...settings, rates: settings.rates.filter(r => r.id !== entry.id) });
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 max-w-md mx-auto flex flex-col">
+      <div className="bg-white px-4 py-4 shadow-sm border-b border-gray-100 flex items-center">
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <h2 className="flex-1 text-center text-base font-bold text-gray-900 -ml-8">币种与汇率</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 pb-10 no-scrollbar space-y-4 text-sm">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4">
+          <label className="flex justify-between items-center">
+            <span className="text-gray-700">基准货币</span>
+            <select
+              value={settings.baseCurrency}
+              onChange={(e) => handleBaseChange(e.target.value)}
+              className="bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+            >
+              {CURRENCIES.map(c => (
+                <option key={c.code} value={c.code}>{currencyLabel(c.code)}</option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-gray-400 mt-2">列表合计、预算和统计均换算为基准货币；切换时预算和账户期初余额按当日汇率换算</p>
+        </div>
+
+        {missingRates.length > 0 && (
+          <p className="text-xs text-amber-600 px-1">
+            {missingRates.join('、')} 缺少汇率，相关记录未计入合计和统计
+          </p>
+        )}
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 space-y-3">
+          <h3 className="text-xs font-bold text-gray-400">添加汇率</h3>
+          <div className="flex items-center space-x-2">
+            <span className="text-gray-500 whitespace-nowrap">1</span>
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="bg-gray-50 rounded-lg px-2 py-1.5 outline-none text-gray-700"
+            >
+              {foreign.map(c => (
+                <option key={c.code} value={c.code}>{c.code}</option>
+              ))}
+            </select>
+            <span className="text-gray-500">=</span>
+            <input
+              type="number"
+              inputMode="decimal"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              placeholder="汇率"
+              className="flex-1 min-w-0 bg-gray-50 rounded-lg px-3 py-1.5 outline-none text-gray-700"
+            />
+            <span className="text-gray-500">{settings.baseCurrency}</span>
+          </div>
+          <label className="flex justify-between items-center">
+            <span className="text-gray-500">生效日期</span>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => e.target.value && setDate(e.target.value)}
+              className="bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+            />
+          </label>
+          <button
+            onClick={handleAdd}
+            disabled={!rate}
+            className="w-full py-2.5 rounded-xl bg-indigo-600 text-white font-bold disabled:opacity-40"
+          >
+            添加
+          </button>
+          <p className="text-xs text-gray-400">记录按其日期当天或之前最近的汇率换算，早于所有汇率的记录使用最早的一条</p>
+        </div>
+
+        {sortedRates.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-sm overflow-hidden border border-gray-100">
+            {sortedRates.map((entry, idx) => (
+              <div
+                key={entry.id}
+                className={`flex items-center px-4 py-3 ${idx !== sortedRates.length - 1 ? 'border-b border-gray-50' : ''}`}
+              >
+                <div className="flex-1">
+                  <p className="font-medium text-gray-900">1 {entry.currency} = {entry.rate} {entry.base}</p>
+                  <p className="text-xs text-gray-400 mt-0.5">{entry.date} 起</p>
+                </div>
+                <button onClick={() => handleDelete(entry)} className="p-1.5 text-gray-300 hover:text-red-500">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CurrencyManager;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { X, Plus } from 'lucide-react';
+import { Expense, CategoryDef, Account, CurrencySettings } from '../types';
+import { parseDateKey } from '../services/dateService';
+import { WEEKDAY_LABELS } from '../services/periodService';
+import TransactionList from './TransactionList';
+
+interface DayRecordsSheetProps {
+  dateKey: string; // YYYY-MM-DD
+  expenses: Expense[]; // records of that day, newest first
+  categories: CategoryDef[];
+  accounts: Account[];
+  currency: CurrencySettings;
+  hideAmounts?: boolean;
+  onEdit: (expense: Expense) => void;
+  onDelete: (id: string) => void;
+  onViewReceipts?: (ids: string[], index: number) => void;
+  onAdd?: () => void; // new record on this day
+  onClose: () => void;
+}
+
+// Bottom sheet listing one day's records, opened from the charts and the calendar
+const DayRecordsSheet: React.FC<DayRecordsSheetProps> = ({
+  dateKey, expenses, categories, accounts, currency, hideAmounts, onEdit, onDelete, onViewReceipts, onAdd, onClose
+}) => {
+  const day = parseDateKey(dateKey);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end max-w-md mx-auto" onClick={onClose}>
+      <div className="bg-white w-full rounded-t-3xl max-h-[75vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center px-6 pt-5 pb-3">
+          <div>
+            <h3 className="text-base font-bold text-gray-900">
+              {day.getMonth() + 1}月{day.getDate()}日 {WEEKDAY_LABELS[day.getDay()]}
+            </h3>
+            <p className="text-xs text-gray-400 mt-0.5">{expenses.length} 笔记录</p>
+          </div>
+          <div className="flex items-center space-x-1">
+            {onAdd && (
+              <button
+                onClick={onAdd}
+                className="flex items-center px-2.5 py-1 rounded-lg bg-indigo-50 text-indigo-600 text-xs font-medium"
+              >
+                <Plus size={14} className="mr-0.5" />
+                记一笔
+              </button>
+            )}
+            <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+        <div className="flex-1 overflow-y-auto px-4 pb-6 bg-gray-50 pt-4 no-scrollbar">
+          {expenses.length === 0 ? (
+            <p className="text-center text-sm text-gray-400 py-8">当天没有记录</p>
+          ) : (
+            <TransactionList
+              expenses={expenses}
+              categories={categories}
+              accounts={accounts}
+              currency={currency}
+              hideAmounts={hideAmounts}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onViewReceipts={onViewReceipts}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DayRecordsSheet;
@@ -0,0 +1,221 @@
+import React, { useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Expense, CategoryDef, Account, TransactionType, CurrencySettings } from '../types';
+import { TRANSACTION_TYPE_LABELS } from '../constants';
+import { EMPTY_FILTERS, SearchFilters, filterExpenses } from '../services/searchService';
+import { ExportFormat, EXPORT_FORMAT_LABELS } from '../services/exportService';
+import { toDateKey } from '../services/dateService';
+
+interface ExportDialogProps {
+  expenses: Expense[];
+  categories: CategoryDef[];
+  accounts: Account[];
+  currency: CurrencySettings;
+  onExport: (format: ExportFormat, records: Expense[], passphrase?: string) => void;
+  onClose: () => void;
+}
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+// Quick date ranges relative to today
+const RANGE_PRESETS: { label: string; range: () => [string, string] }[] = [
+  {
+    label: '本月',
+    range: () => {
+      const now = new Date();
+      return [toDateKey(new Date(now.getFullYear(), now.getMonth(), 1)), toDateKey(now)];
+    },
+  },
+  {
+    label: '上月',
+    range: () => {
+      const now = new Date();
+      return [
+        toDateKey(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+        toDateKey(new Date(now.getFullYear(), now.getMonth(), 0)),
+      ];
+    },
+  },
+  {
+    label: '今年',
+    range: () => {
+      const now = new Date();
+      return [toDateKey(new Date(now.getFullYear(), 0, 1)), toDateKey(now)];
+    },
+  },
+  { label: '全部', range: () => ['', ''] },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ expenses, categories, accounts, currency, onExport, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  // Optional passphrase for JSON backups
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+
+  const updateFilters = (patch: Partial<SearchFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  // JSON is a full backup for re-import, so only the spreadsheet formats are filtered
+  const isBackup = format === 'json';
+  const records = useMemo(
+    () => isBackup ? expenses : filterExpenses(expenses, filters, categories, accounts, currency),
+    [expenses, filters, categories, accounts, currency, isBackup]
+  );
+
+  const categoryOptions = categories.filter(c =>
+    c.type !== 'transfer' && (filters.types.length === 0 || filters.types.includes(c.type))
+  );
+
+  const chipClass = (selected: boolean) =>
+    `px-2.5 py-1 rounded-lg text-xs whitespace-nowrap transition-colors ${
+      selected ? 'bg-indigo-50 text-indigo-600 font-bold' : 'bg-gray-50 text-gray-500'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end justify-center">
+      <div className="bg-white w-full max-w-md rounded-t-3xl max-h-[85vh] flex flex-col">
+        <div className="flex justify-between items-center px-6 pt-5 pb-3 border-b border-gray-100">
+          <h3 className="text-base font-bold text-gray-900">导出数据</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4 text-xs no-scrollbar">
+          <div className="flex bg-gray-100 p-1 rounded-xl">
+            {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(f => (
+              <button
+                key={f}
+                onClick={() => setFormat(f)}
+                className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${
+                  format === f ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500'
+                }`}
+              >
+                {EXPORT_FORMAT_LABELS[f]}
+              </button>
+            ))}
+          </div>
+
+          {isBackup ? (
+            <div className="space-y-3">
+              <p className="text-gray-400">导出全部记录，可在其他设备上重新导入。</p>
+              <label className="flex justify-between items-center text-sm">
+                <span className="text-gray-700">使用密码加密</span>
+                <input
+                  type="checkbox"
+                  checked={encrypt}
+                  onChange={(e) => setEncrypt(e.target.checked)}
+                  className="accent-indigo-600"
+                />
+              </label>
+              {encrypt && (
+                <>
+                  <input
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    placeholder="设置密码"
+                    autoComplete="new-password"
+                    className="w-full bg-gray-50 rounded-lg px-3 py-2 outline-none text-sm text-gray-700"
+                  />
+                  <input
+                    type="password"
+                    value={confirmPassphrase}
+                    onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    placeholder="再次输入密码"
+                    autoComplete="new-password"
+                    className="w-full bg-gray-50 rounded-lg px-3 py-2 outline-none text-sm text-gray-700"
+                  />
+                  {confirmPassphrase && confirmPassphrase !== passphrase && (
+                    <p className="text-red-500">两次输入的密码不一致</p>
+                  )}
+                  <p className="text-gray-400">密码无法找回，忘记密码将无法导入此备份。</p>
+                </>
+              )}
+            </div>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <div className="flex space-x-1.5">
+                  {RANGE_PRESETS.map(preset => {
+                    const [startDate, endDate] = preset.range();
+                    return (
+                      <button
+                        key={preset.label}
+                        onClick={() => updateFilters({ startDate, endDate })}
+                        className={chipClass(filters.startDate === startDate && filters.endDate === endDate)}
+                      >
+                        {preset.label}
+                      </button>
+                    );
+                  })}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="text-gray-400 w-8">日期</span>
+                  <input
+                    type="date"
+                    value={filters.startDate}
+                    onChange={(e) => updateFilters({ startDate: e.target.value })}
+                    className="flex-1 bg-gray-50 rounded-lg px-2 py-1.5 outline-none text-gray-700"
+                  />
+                  <span className="text-gray-300">-</span>
+                  <input
+                    type="date"
+                    value={filters.endDate}
+                    min={filters.startDate || undefined}
+                    onChange={(e) => updateFilters({ endDate: e.target.value })}
+                    className="flex-1 bg-gray-50 rounded-lg px-2 py-1.5 outline-none text-gray-700"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <span className="text-gray-400 w-8">类型</span>
+                {(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[]).map(t => (
+                  <button
+                    key={t}
+                    onClick={() => updateFilters({ types: toggle(filters.types, t), categoryIds: [] })}
+                    className={chipClass(filters.types.includes(t))}
+                  >
+                    {TRANSACTION_TYPE_LABELS[t]}
+                  </button>
+                ))}
+              </div>
+
+              {categoryOptions.length > 0 && (
+                <div className="flex items-start space-x-2">
+                  <span className="text-gray-400 w-8 flex-shrink-0 pt-1">分类</span>
+                  <div className="flex flex-wrap gap-1.5">
+                    {categoryOptions.map(c => (
+                      <button
+                        key={c.id}
+                        onClick={() => updateFilters({ categoryIds: toggle(filters.categoryIds, c.id) })}
+                        className={chipClass(filters.categoryIds.includes(c.id))}
+                      >
+                        {c.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 pt-3 pb-8 border-t border-gray-100">
+          <button
+            onClick={() => onExport(format, records, isBackup && encrypt ? passphrase : undefined)}
+            disabled={records.length === 0 || (isBackup && encrypt && (!passphrase || passphrase !== confirmPassphrase))}
+            className="w-full py-3 rounded-xl bg-indigo-600 text-white font-bold active:scale-95 transition-transform disabled:opacity-40"
+          >
+            导出 {records.length} 条记录
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,230 @@
+import React, { useState } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+import { Expense, CategoryDef, Account, TransactionType, ReimbursementStatus, SplitLine } from '../types';
+import { getCategoryConfig, getAccountName, TRANSACTION_TYPE_LABELS } from '../constants';
+import { ImportPlan, ConflictResolution, FieldChange, mergeImport } from '../services/importService';
+import { toDateKey } from '../services/dateService';
+import { formatCents } from '../services/moneyService';
+import { REIMBURSEMENT_STATUS_LABELS } from '../services/reimbursementService';
+import { describeSplits } from '../services/splitService';
+
+interface ImportReviewProps {
+  plan: ImportPlan;
+  expenses: Expense[];
+  categories: CategoryDef[];
+  accounts: Account[];
+  onConfirm: (expenses: Expense[], summary: string) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Partial<Record<keyof Expense, string>> = {
+  date: '日期',
+  type: '类型',
+  amount: '金额',
+  currency: '币种',
+  category: '分类',
+  splits: '拆分',
+  accountId: '账户',
+  toAccountId: '转入账户',
+  fee: '手续费',
+  note: '备注',
+  tags: '标签',
+  attachments: '票据照片',
+  reimbursement: '报销状态',
+  reimbursedBy: '报销收入',
+  recurringId: '周期规则',
+  occurrence: '周期日期',
+};
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  mine: '保留本地',
+  theirs: '使用导入',
+  both: '都保留',
+};
+
+const ImportReview: React.FC<ImportReviewProps> = ({ plan, expenses, categories, accounts, onConfirm, onClose }) => {
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+
+  const formatValue = (change: FieldChange, value: Expense[keyof Expense]) => {
+    if (value === undefined || value === '') return '—';
+    switch (change.field) {
+      case 'date': {
+        const d = new Date(value as number);
+        return `${toDateKey(d)} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+      }
+      case 'type': return TRANSACTION_TYPE_LABELS[value as TransactionType];
+      case 'amount':
+      case 'fee': return formatCents(value as number);
+      case 'tags': return (value as string[]).join('、') || '—';
+      case 'attachments': return `${(value as string[]).length} 张`;
+      case 'splits': return describeSplits(value as SplitLine[], categories);
+      case 'reimbursement': return REIMBURSEMENT_STATUS_LABELS[value as ReimbursementStatus];
+      case 'reimbursedBy': {
+        const income = [...expenses, ...plan.valid].find(e => e.id === value);
+        return income ? `${toDateKey(new Date(income.date))} 收入 ${formatCents(income.amount)}` : '已关联';
+      }
+      case 'category': return getCategoryConfig(value as string, categories).label;
+      case 'accountId':
+      case 'toAccountId': return getAccountName(value as string, accounts);
+      default: return String(value);
+    }
+  };
+
+  const setAll = (resolution: ConflictResolution) => {
+    const next: Record<string, ConflictResolution> = {};
+    plan.conflicts.forEach(c => { next[c.mine.id] = resolution; });
+    setResolutions(next);
+  };
+
+  const handleConfirm = () => {
+    if (mode === 'replace') {
+      if (!confirm(`将删除本地全部 ${expenses.length} 条记录，替换为导入的 ${plan.valid.length} 条，确定吗？`)) return;
+      onConfirm([...plan.valid].sort((a, b) => b.date - a.date), `已替换为 ${plan.valid.length} 条记录`);
+      return;
+    }
+    const resolved = Object.values(resolutions);
+    const taken = resolved.filter(r => r === 'theirs').length;
+    const copied = resolved.filter(r => r === 'both').length;
+    onConfirm(
+      mergeImport(expenses, plan, resolutions),
+      `新增 ${plan.added.length + copied} 条，更新 ${taken} 条记录`
+    );
+  };
+
+  const chipClass = (selected: boolean) =>
+    `flex-1 py-1.5 rounded-lg text-xs transition-colors ${
+      selected ? 'bg-indigo-50 text-indigo-600 font-bold' : 'bg-gray-50 text-gray-500'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end justify-center">
+      <div className="bg-white w-full max-w-md rounded-t-3xl max-h-[90vh] flex flex-col">
+        <div className="flex justify-between items-center px-6 pt-5 pb-3 border-b border-gray-100">
+          <h3 className="text-base font-bold text-gray-900">导入确认</h3>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-4 text-xs no-scrollbar">
+          <div className="grid grid-cols-4 gap-2 text-center">
+            {[
+              { label: '新增', value: plan.added.length, color: 'text-green-600' },
+              { label: '相同', value: plan.unchanged, color: 'text-gray-500' },
+              { label: '冲突', value: plan.conflicts.length, color: 'text-amber-600' },
+              { label: '无效', value: plan.invalid.length, color: 'text-red-500' },
+            ].map(item => (
+              <div key={item.label} className="bg-gray-50 rounded-xl py-2">
+                <p className={`text-lg font-bold ${item.color}`}>{item.value}</p>
+                <p className="text-gray-400">{item.label}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex bg-gray-100 p-1 rounded-xl">
+            <button
+              onClick={() => setMode('merge')}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${mode === 'merge' ? 'bg-white text-indigo-600 shadow-sm' : 'text-gray-500'}`}
+            >
+              合并
+            </button>
+            <button
+              onClick={() => setMode('replace')}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition-all ${mode === 'replace' ? 'bg-white text-red-500 shadow-sm' : 'text-gray-500'}`}
+            >
+              替换全部
+            </button>
+          </div>
+
+          {mode === 'replace' && (
+            <p className="flex items-start text-red-500 bg-red-50 rounded-xl p-3">
+              <AlertTriangle size={14} className="mr-1.5 flex-shrink-0 mt-0.5" />
+              本地 {expenses.length} 条记录将被删除，只保留导入文件中的 {plan.valid.length} 条有效记录。
+            </p>
+          )}
+
+          {plan.invalid.length > 0 && (
+            <div>
+              <h4 className="font-bold text-gray-500 mb-1.5">无效记录 (将被跳过)</h4>
+              <div className="bg-red-50 rounded-xl p-3 space-y-1 max-h-32 overflow-y-auto no-scrollbar">
+                {plan.invalid.map(issue => (
+                  <p key={issue.index} className="text-red-500">第 {issue.index + 1} 条：{issue.reason}</p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {mode === 'merge' && plan.conflicts.length > 0 && (
+            <div>
+              <div className="flex justify-between items-center mb-1.5">
+                <h4 className="font-bold text-gray-500">内容不同的记录</h4>
+                <div className="flex space-x-2 text-indigo-600">
+                  {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(r => (
+                    <button key={r} onClick={() => setAll(r)}>全部{RESOLUTION_LABELS[r]}</button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-3">
+                {plan.conflicts.map(conflict => {
+                  const resolution = resolutions[conflict.mine.id] || 'mine';
+                  return (
+                    <div key={conflict.mine.id} className="border border-amber-100 rounded-xl p-3">
+                      <table className="w-full mb-2">
+                        <thead>
+                          <tr className="text-gray-400">
+                            <th className="text-left font-normal w-14"></th>
+                            <th className="text-left font-normal">本地</th>
+                            <th className="text-left font-normal">导入</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {conflict.changes.map(change => (
+                            <tr key={change.field}>
+                              <td className="text-gray-400 py-0.5">{FIELD_LABELS[change.field]}</td>
+                              <td className={`py-0.5 pr-1 break-all ${resolution === 'theirs' ? 'text-gray-300 line-through' : 'text-gray-700'}`}>
+                                {formatValue(change, change.mine)}
+                              </td>
+                              <td className={`py-0.5 break-all ${resolution === 'mine' ? 'text-gray-300 line-through' : 'text-gray-700'}`}>
+                                {formatValue(change, change.theirs)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <div className="flex space-x-1.5">
+                        {(Object.keys(RESOLUTION_LABELS) as ConflictResolution[]).map(r => (
+                          <button
+                            key={r}
+                            onClick={() => setResolutions({ ...resolutions, [conflict.mine.id]: r })}
+                            className={chipClass(resolution === r)}
+                          >
+                            {RESOLUTION_LABELS[r]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 pt-3 pb-8 border-t border-gray-100">
+          <button
+            onClick={handleConfirm}
+            disabled={plan.valid.length === 0}
+            className={`w-full py-3 rounded-xl text-white font-bold active:scale-95 transition-transform disabled:opacity-40 ${
+              mode === 'replace' ? 'bg-red-500' : 'bg-indigo-600'
+            }`}
+          >
+            {mode === 'replace' ? '替换全部数据' : '确认导入'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReview;
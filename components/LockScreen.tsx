@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { Lock, Delete, X } from 'lucide-react';
+import { LockSettings } from '../types';
+import * as storage from '../services/storageService';
+import { PIN_MAX_LENGTH, PIN_MIN_LENGTH, MAX_ATTEMPTS, verifyPin, registerFailure, getRemainingLockout } from '../services/lockService';
+
+interface LockScreenProps {
+  settings: LockSettings;
+  onUnlock: () => void;
+  onCancel?: () => void; // shown when unlocking is optional (hidden amounts mode)
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '', '0', 'del'];
+
+const LockScreen: React.FC<LockScreenProps> = ({ settings, onUnlock, onCancel }) => {
+  const [pin, setPin] = useState('');
+  const [lockout, setLockout] = useState(() => storage.getLockoutState());
+  const [error, setError] = useState<string | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  const remaining = getRemainingLockout(lockout, now);
+
+  // Tick the countdown while locked out
+  useEffect(() => {
+    if (remaining <= 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [remaining > 0]);
+
+  const submit = async (value: string) => {
+    if (checking || remaining > 0) return;
+    setChecking(true);
+    try {
+      if (await verifyPin(value, settings)) {
+        const reset = { failures: 0, lockedUntil: 0 };
+        storage.saveLockoutState(reset);
+        setLockout(reset);
+        onUnlock();
+        return;
+      }
+      const next = registerFailure(lockout, Date.now());
+      storage.saveLockoutState(next);
+      setLockout(next);
+      setNow(Date.now());
+      setPin('');
+      setError(next.lockedUntil
+        ? '尝试次数过多'
+        : `PIN 错误，还可尝试 ${MAX_ATTEMPTS - next.failures} 次`);
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const press = (key: string) => {
+    if (remaining > 0 || checking) return;
+    setError(null);
+    if (key === 'del') {
+      setPin(pin.slice(0, -1));
+      return;
+    }
+    const next = (pin + key).slice(0, PIN_MAX_LENGTH);
+    setPin(next);
+    // Full-length PINs submit themselves; shorter ones use the confirm button
+    if (next.length === PIN_MAX_LENGTH) submit(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-gray-50 max-w-md mx-auto flex flex-col items-center justify-center px-8">
+      {onCancel && (
+        <button onClick={onCancel} className="absolute top-4 right-4 p-1.5 rounded-full hover:bg-gray-100 text-gray-500">
+          <X size={20} />
+        </button>
+      )}
+      <div className="w-14 h-14 rounded-full bg-indigo-50 text-indigo-600 flex items-center justify-center mb-4">
+        <Lock size={24} />
+      </div>
+      <p className="text-base font-bold text-gray-900 mb-6">输入 PIN 解锁</p>
+
+      <div className="flex space-x-3 mb-3 h-4">
+        {Array.from({ length: PIN_MAX_LENGTH }).map((_, i) => (
+          <span
+            key={i}
+            className={`w-3 h-3 rounded-full ${i < pin.length ? 'bg-indigo-600' : 'bg-gray-200'}`}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-red-500 h-4 mb-6">
+        {remaining > 0 ? `${error || '已锁定'}，请 ${Math.ceil(remaining / 1000)} 秒后重试` : error}
+      </p>
+
+      <div className="grid grid-cols-3 gap-4 w-full max-w-xs">
+        {KEYS.map((key, i) => key === '' ? (
+          <button
+            key={i}
+            onClick={() => submit(pin)}
+            disabled={pin.length < PIN_MIN_LENGTH || remaining > 0 || checking}
+            className="h-14 rounded-full text-sm font-bold text-indigo-600 disabled:opacity-30"
+          >
+            确定
+          </button>
+        ) : (
+          <button
+            key={i}
+            onClick={() => press(key)}
+            disabled={remaining > 0}
+            className="h-14 rounded-full bg-white shadow-sm border border-gray-100 text-xl font-medium text-gray-900 flex items-center justify-center active:bg-gray-100 disabled:opacity-40"
+          >
+            {key === 'del' ? <Delete size={20} className="text-gray-500" /> : key}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LockScreen;
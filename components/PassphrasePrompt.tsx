@@ -0,0 +1,55 @@
+import React, { useState } from 'react';
+import { X, Lock } from 'lucide-react';
+
+interface PassphrasePromptProps {
+  title: string;
+  error: string | null;
+  busy: boolean;
+  onSubmit: (passphrase: string) => void;
+  onClose: () => void;
+}
+
+const PassphrasePrompt: React.FC<PassphrasePromptProps> = ({ title, error, busy, onSubmit, onClose }) => {
+  const [passphrase, setPassphrase] = useState('');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-end justify-center">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (passphrase && !busy) onSubmit(passphrase);
+        }}
+        className="bg-white w-full max-w-md rounded-t-3xl p-6 pb-8"
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-base font-bold text-gray-900 flex items-center">
+            <Lock size={16} className="mr-2 text-indigo-600" />
+            {title}
+          </h3>
+          <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+            <X size={20} />
+          </button>
+        </div>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="输入备份密码"
+          autoComplete="current-password"
+          autoFocus
+          className="w-full bg-gray-50 rounded-lg px-3 py-2.5 outline-none text-sm text-gray-700"
+        />
+        {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || busy}
+          className="w-full mt-4 py-3 rounded-xl bg-indigo-600 text-white font-bold active:scale-95 transition-transform disabled:opacity-40"
+        >
+          {busy ? '正在解密...' : '解密'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default PassphrasePrompt;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { ChevronLeft } from 'lucide-react';
+import { PeriodSettings } from '../types';
+import { WEEKDAY_LABELS, getPeriod, formatPeriod } from '../services/periodService';
+
+interface PeriodSettingsPageProps {
+  settings: PeriodSettings;
+  onChange: (settings: PeriodSettings) => void;
+  onClose: () => void;
+}
+
+// Days 29-31 are missing from some months, so a month can start on the 28th at the latest
+const MONTH_START_DAYS = Array.from({ length: 28 }, (_, i) => i + 1);
+// Weekdays listed from Monday
+const WEEK_START_DAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const PeriodSettingsPage: React.FC<PeriodSettingsPageProps> = ({ settings, onChange, onClose }) => {
+  const now = new Date();
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 max-w-md mx-auto flex flex-col">
+      <div className="bg-white px-4 py-4 shadow-sm border-b border-gray-100 flex items-center">
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <h2 className="flex-1 text-center text-base font-bold text-gray-900 -ml-8">账期设置</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 pb-10 no-scrollbar space-y-4 text-sm">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4">
+          <label className="flex justify-between items-center">
+            <span className="text-gray-700">每月起始日</span>
+            <select
+              value={settings.monthStartDay}
+              onChange={(e) => onChange({ ...settings, monthStartDay: Number(e.target.value) })}
+              className="bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+            >
+              {MONTH_START_DAYS.map(day => (
+                <option key={day} value={day}>{day}日</option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-gray-400 mt-2">
+            例如设为发薪日，本月账期为 {formatPeriod('month', getPeriod('month', now, settings))}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4">
+          <label className="flex justify-between items-center">
+            <span className="text-gray-700">每周第一天</span>
+            <select
+              value={settings.weekStartDay}
+              onChange={(e) => onChange({ ...settings, weekStartDay: Number(e.target.value) })}
+              className="bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+            >
+              {WEEK_START_DAYS.map(day => (
+                <option key={day} value={day}>{WEEKDAY_LABELS[day]}</option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-gray-400 mt-2">
+            本周为 {formatPeriod('week', getPeriod('week', now, settings))}
+          </p>
+        </div>
+
+        <p className="text-xs text-gray-400 px-1">账单列表、统计图表和预算均按此划分月份和周</p>
+      </div>
+    </div>
+  );
+};
+
+export default PeriodSettingsPage;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Camera, ImagePlus, X } from 'lucide-react';
+import { saveAttachment } from '../services/attachmentService';
+import ReceiptThumb from './ReceiptThumb';
+
+interface ReceiptPickerProps {
+  value: string[]; // attachment ids
+  onChange: (ids: string[]) => void;
+  onView: (index: number) => void;
+}
+
+const MAX_RECEIPTS = 9;
+
+// Receipt photos of the record being edited. The file inputs open the camera or the
+// photo picker on Android/iOS and a file chooser on the web.
+const ReceiptPicker: React.FC<ReceiptPickerProps> = ({ value, onChange, onView }) => {
+  const [busy, setBusy] = useState(false);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []).slice(0, MAX_RECEIPTS - value.length);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setBusy(true);
+    const added: string[] = [];
+    try {
+      for (const file of files) added.push(await saveAttachment(file));
+    } catch (e) {
+      console.error('Failed to save receipt photo', e);
+      alert(`保存照片失败：${(e as Error)?.message || e}`);
+    } finally {
+      if (added.length > 0) onChange([...value, ...added]);
+      setBusy(false);
+    }
+  };
+
+  const inputButton = (icon: React.ReactNode, label: string, capture: boolean) => (
+    <label className={`relative flex items-center space-x-1 px-2.5 py-1 rounded-lg text-xs whitespace-nowrap text-gray-400 hover:bg-gray-50 ${
+      busy || value.length >= MAX_RECEIPTS ? 'opacity-40 pointer-events-none' : 'cursor-pointer'
+    }`}>
+      <input
+        type="file"
+        accept="image/*"
+        multiple={!capture}
+        {...(capture && { capture: 'environment' as const })}
+        onChange={handleFiles}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+      />
+      {icon}
+      <span>{label}</span>
+    </label>
+  );
+
+  return (
+    <div className="flex items-center space-x-2 overflow-x-auto no-scrollbar">
+      {inputButton(<Camera size={14} />, '拍票据', true)}
+      {inputButton(<ImagePlus size={14} />, '选照片', false)}
+      {busy && <span className="text-xs text-gray-400 whitespace-nowrap">正在保存...</span>}
+      {value.map((id, index) => (
+        <div key={id} className="relative flex-shrink-0">
+          <ReceiptThumb id={id} size={36} onClick={() => onView(index)} />
+          <button
+            onClick={() => onChange(value.filter(v => v !== id))}
+            className="absolute -top-1 -right-1 p-0.5 rounded-full bg-gray-700 text-white"
+          >
+            <X size={10} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ReceiptPicker;
@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import { ImageOff } from 'lucide-react';
+import { loadAttachment } from '../services/attachmentService';
+
+interface ReceiptThumbProps {
+  id: string;
+  size: number; // pixels, square
+  onClick?: () => void;
+}
+
+const ReceiptThumb: React.FC<ReceiptThumbProps> = ({ id, size, onClick }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setMissing(false);
+    loadAttachment(id, 'thumb')
+      .then(result => { if (!cancelled) setUrl(result); })
+      .catch(() => { if (!cancelled) setMissing(true); });
+    return () => { cancelled = true; };
+  }, [id]);
+
+  return (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick?.();
+      }}
+      style={{ width: size, height: size }}
+      className="flex-shrink-0 rounded-md overflow-hidden bg-gray-100 flex items-center justify-center"
+    >
+      {url ? (
+        <img src={url} alt="票据" className="w-full h-full object-cover" />
+      ) : missing ? (
+        <ImageOff size={Math.round(size / 2.5)} className="text-gray-300" />
+      ) : null}
+    </button>
+  );
+};
+
+export default ReceiptThumb;
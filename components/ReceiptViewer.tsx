@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { X, ChevronLeft, ChevronRight, ImageOff } from 'lucide-react';
+import { loadAttachment } from '../services/attachmentService';
+
+interface ReceiptViewerProps {
+  ids: string[];
+  initialIndex: number;
+  onClose: () => void;
+}
+
+// Full-screen view of a record's receipt photos
+const ReceiptViewer: React.FC<ReceiptViewerProps> = ({ ids, initialIndex, onClose }) => {
+  const [index, setIndex] = useState(initialIndex);
+  const [url, setUrl] = useState<string | null>(null);
+  const [missing, setMissing] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUrl(null);
+    setMissing(false);
+    loadAttachment(ids[index], 'full')
+      .then(result => { if (!cancelled) setUrl(result); })
+      .catch(() => { if (!cancelled) setMissing(true); });
+    return () => { cancelled = true; };
+  }, [ids, index]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black max-w-md mx-auto flex flex-col">
+      <div className="flex justify-between items-center px-4 py-4 text-white">
+        <span className="text-sm">{index + 1} / {ids.length}</span>
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-white/10">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="flex-1 relative flex items-center justify-center overflow-hidden">
+        {url ? (
+          <img src={url} alt="票据" className="max-w-full max-h-full object-contain" />
+        ) : missing ? (
+          <div className="flex flex-col items-center text-gray-500">
+            <ImageOff size={32} className="mb-2" />
+            <p className="text-sm">照片已丢失</p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">正在加载...</p>
+        )}
+
+        {index > 0 && (
+          <button
+            onClick={() => setIndex(index - 1)}
+            className="absolute left-2 p-2 rounded-full bg-black/40 text-white"
+          >
+            <ChevronLeft size={24} />
+          </button>
+        )}
+        {index < ids.length - 1 && (
+          <button
+            onClick={() => setIndex(index + 1)}
+            className="absolute right-2 p-2 rounded-full bg-black/40 text-white"
+          >
+            <ChevronRight size={24} />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptViewer;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { ChevronLeft, Repeat, SkipForward, Square, Trash2 } from 'lucide-react';
+import { CategoryDef, RecurringRule } from '../types';
+import { getCategoryConfig, CategoryIcon } from '../constants';
+import { describeRule, getNextOccurrence } from '../services/recurringService';
+import { toDateKey, endOfDay } from '../services/dateService';
+import { getCurrencySymbol } from '../services/currencyService';
+import { formatCents } from '../services/moneyService';
+
+interface RecurringManagerProps {
+  rules: RecurringRule[];
+  categories: CategoryDef[];
+  hideAmounts?: boolean; // app lock in hidden-amounts mode
+  onChange: (rules: RecurringRule[]) => void;
+  onClose: () => void;
+}
+
+const RecurringManager: React.FC<RecurringManagerProps> = ({ rules, categories, hideAmounts, onChange, onClose }) => {
+  const now = new Date();
+
+  const updateRule = (id: string, patch: Partial<RecurringRule>) => {
+    onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const handleSkip = (rule: RecurringRule, next: Date) => {
+    updateRule(rule.id, { skipped: [...rule.skipped, toDateKey(next)] });
+  };
+
+  const handleStop = (rule: RecurringRule) => {
+    if (confirm('结束后不再生成新的记录，确定吗?')) {
+      updateRule(rule.id, { endDate: endOfDay(now).getTime() });
+    }
+  };
+
+  const handleDelete = (rule: RecurringRule) => {
+    if (confirm('确定删除这条周期规则吗? 已生成的记录会保留')) {
+      onChange(rules.filter(r => r.id !== rule.id));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 max-w-md mx-auto flex flex-col">
+      <div className="bg-white px-4 py-4 shadow-sm border-b border-gray-100 flex items-center">
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <h2 className="flex-1 text-center text-base font-bold text-gray-900 -ml-8">周期记账</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 pb-10 no-scrollbar">
+        {rules.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-64 text-gray-400">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
+              <Repeat size={24} className="opacity-40" />
+            </div>
+            <p className="text-sm">暂无周期规则</p>
+            <p className="text-xs mt-1">记账时选择“重复”即可创建</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {rules.map(rule => {
+              const catConfig = getCategoryConfig(rule.category, categories);
+              const next = getNextOccurrence(rule, now);
+              return (
+                <div key={rule.id} className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4">
+                  <div className="flex items-center">
+                    <div className={`p-2 rounded-full mr-3 ${catConfig.color}`}>
+                      <CategoryIcon icon={catConfig.icon} size={18} />
+                    </div>
+                    <div className="flex-1">
+                      <div className="flex justify-between items-center">
+                        <span className="font-medium text-gray-900">{rule.note || catConfig.label}</span>
+                        <span className={`font-bold ${rule.type === 'income' ? 'text-green-600' : 'text-gray-900'}`}>
+                          {rule.type === 'income' ? '+' : '-'} {getCurrencySymbol(rule.currency)}{hideAmounts ? '****' : formatCents(rule.amount)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-400 mt-1">{describeRule(rule)}</p>
+                    </div>
+                  </div>
+
+                  <div className="flex justify-between items-center mt-3 pt-3 border-t border-gray-50 text-xs">
+                    <span className="text-gray-500">
+                      {next ? `下次: ${toDateKey(next)}` : '已结束'}
+                    </span>
+                    <div className="flex space-x-1">
+                      {next && (
+                        <>
+                          <button
+                            onClick={() => handleSkip(rule, next)}
+                            className="flex items-center space-x-0.5 px-2 py-1 rounded-lg text-gray-500 hover:bg-gray-50"
+                          >
+                            <SkipForward size={12} />
+                            <span>跳过下次</span>
+                          </button>
+                          <button
+                            onClick={() => handleStop(rule)}
+                            className="flex items-center space-x-0.5 px-2 py-1 rounded-lg text-gray-500 hover:bg-gray-50"
+                          >
+                            <Square size={12} />
+                            <span>结束</span>
+                          </button>
+                        </>
+                      )}
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="flex items-center px-2 py-1 rounded-lg text-gray-300 hover:text-red-500"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecurringManager;
@@ -0,0 +1,226 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, X, Check, Receipt } from 'lucide-react';
+import { Expense, CategoryDef, CurrencySettings, ReimbursementStatus } from '../types';
+import { getCategoryConfig } from '../constants';
+import { toDateKey } from '../services/dateService';
+import { formatCents, sumMoney } from '../services/moneyService';
+import { getCurrencySymbol, toBaseAmount } from '../services/currencyService';
+import {
+  REIMBURSEMENT_STATUS_LABELS, REIMBURSEMENT_STATUSES, markReimbursed, unlinkIncome
+} from '../services/reimbursementService';
+
+interface ReimbursementManagerProps {
+  expenses: Expense[];
+  categories: CategoryDef[];
+  currency: CurrencySettings;
+  hideAmounts?: boolean; // app lock in hidden-amounts mode
+  onChange: (expenses: Expense[]) => void;
+  onClose: () => void;
+}
+
+const ReimbursementManager: React.FC<ReimbursementManagerProps> = ({ expenses, categories, currency, hideAmounts, onChange, onClose }) => {
+  const [status, setStatus] = useState<ReimbursementStatus>('pending');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [pickingIncome, setPickingIncome] = useState(false);
+
+  const baseSymbol = getCurrencySymbol(currency.baseCurrency);
+  const baseTotal = (items: Expense[]) => sumMoney(items.map(e => toBaseAmount(e, currency) ?? 0));
+  const formatAmount = (value: number) => hideAmounts ? '****' : formatCents(value);
+  const formatOriginal = (e: Expense) => `${getCurrencySymbol(e.currency)}${formatAmount(e.amount)}`;
+
+  const byStatus = useMemo(() => {
+    const groups: Record<ReimbursementStatus, Expense[]> = { pending: [], submitted: [], reimbursed: [] };
+    expenses.forEach(e => {
+      if (e.type === 'expense' && e.reimbursement) groups[e.reimbursement].push(e);
+    });
+    return groups;
+  }, [expenses]);
+
+  const incomeById = useMemo(
+    () => new Map(expenses.filter(e => e.type === 'income').map(e => [e.id, e])),
+    [expenses]
+  );
+  const incomes = useMemo(() => Array.from(incomeById.values()).sort((a, b) => b.date - a.date), [incomeById]);
+
+  const items = byStatus[status];
+  const selectedItems = items.filter(e => selected.includes(e.id));
+
+  const switchStatus = (next: ReimbursementStatus) => {
+    setStatus(next);
+    setSelected([]);
+  };
+
+  const toggle = (id: string) =>
+    setSelected(prev => prev.includes(id) ? prev.filter(i => i !== id) : [...prev, id]);
+
+  const setSelectedStatus = (next: ReimbursementStatus) => {
+    const ids = new Set(selected);
+    onChange(expenses.map(e => ids.has(e.id) ? { ...e, reimbursement: next, reimbursedBy: undefined } : e));
+    setSelected([]);
+  };
+
+  const handleLink = (incomeId: string | null) => {
+    onChange(markReimbursed(expenses, selected, incomeId));
+    setSelected([]);
+    setPickingIncome(false);
+  };
+
+  const handleUndo = (incomeId: string) => {
+    if (confirm('撤销后，该笔收入报销的所有支出将改回"已提交"，确定吗?')) onChange(unlinkIncome(expenses, incomeId));
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 max-w-md mx-auto flex flex-col">
+      <div className="bg-white px-4 py-4 shadow-sm border-b border-gray-100 flex items-center">
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <h2 className="flex-1 text-center text-base font-bold text-gray-900 -ml-8">报销</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 pb-32 no-scrollbar space-y-4 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          {(['pending', 'submitted'] as ReimbursementStatus[]).map(s => (
+            <div key={s} className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
+              <p className="text-gray-400 text-xs mb-1">{REIMBURSEMENT_STATUS_LABELS[s]} · {byStatus[s].length} 笔</p>
+              <p className="text-lg font-bold text-gray-900">{baseSymbol}{formatAmount(baseTotal(byStatus[s]))}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-white p-1 rounded-xl shadow-sm border border-gray-100 grid grid-cols-3 gap-1">
+          {REIMBURSEMENT_STATUSES.map(s => (
+            <button
+              key={s}
+              onClick={() => switchStatus(s)}
+              className={`text-xs font-medium py-1.5 rounded-lg transition-all ${
+                status === s ? 'bg-indigo-50 text-indigo-600 font-bold' : 'text-gray-400 hover:bg-gray-50'
+              }`}
+            >
+              {REIMBURSEMENT_STATUS_LABELS[s]} ({byStatus[s].length})
+            </button>
+          ))}
+        </div>
+
+        {items.length === 0 ? (
+          <div className="flex flex-col items-center justify-center h-48 text-gray-400">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mb-4">
+              <Receipt size={24} className="opacity-40" />
+            </div>
+            <p className="text-sm">暂无{REIMBURSEMENT_STATUS_LABELS[status]}的支出</p>
+            {status === 'pending' && <p className="text-xs mt-1">记账时勾选“可报销”即可加入</p>}
+          </div>
+        ) : (
+          <div className="bg-white rounded-2xl shadow-sm overflow-hidden border border-gray-100">
+            {[...items].sort((a, b) => b.date - a.date).map((item, idx) => {
+              const catConfig = getCategoryConfig(item.category, categories);
+              const income = item.reimbursedBy ? incomeById.get(item.reimbursedBy) : undefined;
+              const isSelected = selected.includes(item.id);
+              return (
+                <div
+                  key={item.id}
+                  onClick={() => status !== 'reimbursed' && toggle(item.id)}
+                  className={`flex items-center p-3 ${status !== 'reimbursed' ? 'cursor-pointer active:bg-gray-50' : ''} ${idx !== items.length - 1 ? 'border-b border-gray-50' : ''}`}
+                >
+                  {status !== 'reimbursed' && (
+                    <span className={`w-4 h-4 mr-3 rounded border flex items-center justify-center flex-shrink-0 ${
+                      isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'border-gray-300'
+                    }`}>
+                      {isSelected && <Check size={12} />}
+                    </span>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-gray-900 truncate">{item.note || catConfig.label}</span>
+                      <span className="font-bold text-gray-900 ml-2">{formatOriginal(item)}</span>
+                    </div>
+                    <div className="flex justify-between items-center text-xs text-gray-400 mt-0.5">
+                      <span>{toDateKey(new Date(item.date))} · {catConfig.label}</span>
+                      {status === 'reimbursed' && (
+                        income ? (
+                          <button onClick={() => handleUndo(income.id)} className="text-indigo-600">
+                            {toDateKey(new Date(income.date))} 收入 {formatOriginal(income)}
+                          </button>
+                        ) : (
+                          <button
+                            onClick={() => onChange(expenses.map(e => e.id === item.id ? { ...e, reimbursement: 'submitted', reimbursedBy: undefined } : e))}
+                            className="text-gray-400 underline"
+                          >
+                            未关联收入 · 撤销
+                          </button>
+                        )
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {selectedItems.length > 0 && (
+        <div className="absolute bottom-0 inset-x-0 bg-white border-t border-gray-100 p-4 space-y-2">
+          <p className="text-xs text-gray-500">
+            已选 {selectedItems.length} 笔，合计 {baseSymbol}{formatAmount(baseTotal(selectedItems))}
+          </p>
+          <div className="flex space-x-2">
+            {status === 'pending' && (
+              <button onClick={() => setSelectedStatus('submitted')} className="flex-1 py-2.5 rounded-xl bg-gray-50 text-gray-700 font-medium">
+                标记已提交
+              </button>
+            )}
+            {status === 'submitted' && (
+              <button onClick={() => setSelectedStatus('pending')} className="flex-1 py-2.5 rounded-xl bg-gray-50 text-gray-700 font-medium">
+                改回待提交
+              </button>
+            )}
+            <button onClick={() => setPickingIncome(true)} className="flex-1 py-2.5 rounded-xl bg-indigo-600 text-white font-bold">
+              标记已报销
+            </button>
+          </div>
+        </div>
+      )}
+
+      {pickingIncome && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-end max-w-md mx-auto">
+          <div className="bg-white w-full rounded-t-3xl max-h-[75vh] flex flex-col">
+            <div className="flex justify-between items-center px-6 pt-5 pb-3">
+              <div>
+                <h3 className="text-base font-bold text-gray-900">选择报销到账的收入</h3>
+                <p className="text-xs text-gray-400 mt-0.5">报销合计 {baseSymbol}{formatAmount(baseTotal(selectedItems))}</p>
+              </div>
+              <button onClick={() => setPickingIncome(false)} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto px-6 no-scrollbar">
+              {incomes.length === 0 ? (
+                <p className="text-center text-sm text-gray-400 py-8">还没有收入记录</p>
+              ) : incomes.map(income => (
+                <button
+                  key={income.id}
+                  onClick={() => handleLink(income.id)}
+                  className="w-full flex justify-between items-center py-3 border-b border-gray-50 text-left text-sm"
+                >
+                  <div>
+                    <p className="text-gray-900">{income.note || getCategoryConfig(income.category, categories).label}</p>
+                    <p className="text-xs text-gray-400">{toDateKey(new Date(income.date))}</p>
+                  </div>
+                  <span className="font-bold text-green-600">+{formatOriginal(income)}</span>
+                </button>
+              ))}
+            </div>
+            <div className="p-4">
+              <button onClick={() => handleLink(null)} className="w-full py-2.5 rounded-xl bg-gray-50 text-gray-600 text-sm">
+                不关联收入，直接标记
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReimbursementManager;
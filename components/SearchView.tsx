@@ -0,0 +1,196 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronLeft, Search, SlidersHorizontal, X } from 'lucide-react';
+import { Expense, CategoryDef, Account, TransactionType, CurrencySettings } from '../types';
+import { TRANSACTION_TYPE_LABELS } from '../constants';
+import { SearchFilters, EMPTY_FILTERS, filterExpenses, hasActiveFilters } from '../services/searchService';
+import { getCurrencySymbol, toBaseAmount } from '../services/currencyService';
+import { formatCents, sumMoney } from '../services/moneyService';
+import TransactionList from './TransactionList';
+
+interface SearchViewProps {
+  expenses: Expense[];
+  categories: CategoryDef[];
+  accounts: Account[];
+  currency: CurrencySettings;
+  hideAmounts?: boolean;
+  onEdit: (expense: Expense) => void;
+  onDelete: (id: string) => void;
+  onViewReceipts: (ids: string[], index: number) => void;
+  onClose: () => void;
+}
+
+const toggle = <T,>(list: T[], value: T) =>
+  list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+const SearchView: React.FC<SearchViewProps> = ({ expenses, categories, accounts, currency, hideAmounts, onEdit, onDelete, onViewReceipts, onClose }) => {
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+
+  const updateFilters = (patch: Partial<SearchFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  const active = hasActiveFilters(filters);
+  const results = useMemo(
+    () => active ? filterExpenses(expenses, filters, categories, accounts, currency) : [],
+    [expenses, filters, categories, accounts, currency, active]
+  );
+
+  // Totals in the base currency
+  const total = (type: TransactionType) =>
+    sumMoney(results.filter(e => e.type === type).map(e => toBaseAmount(e, currency) ?? 0));
+  const totalIncome = total('income');
+  const totalExpense = total('expense');
+  const symbol = getCurrencySymbol(currency.baseCurrency);
+
+  // Offer categories of the selected types (all when no type is selected), archived ones included
+  const categoryOptions = categories.filter(c =>
+    c.type !== 'transfer' && (filters.types.length === 0 || filters.types.includes(c.type))
+  );
+
+  const chipClass = (selected: boolean) =>
+    `px-2.5 py-1 rounded-lg text-xs whitespace-nowrap transition-colors ${
+      selected ? 'bg-indigo-50 text-indigo-600 font-bold' : 'bg-gray-50 text-gray-500'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-30 bg-gray-50 max-w-md mx-auto flex flex-col">
+      <div className="bg-white px-4 py-3 shadow-sm border-b border-gray-100 z-10">
+        <div className="flex items-center space-x-2">
+          <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors">
+            <ChevronLeft size={20} />
+          </button>
+          <div className="flex-1 flex items-center bg-gray-50 rounded-lg px-3 py-2">
+            <Search size={16} className="text-gray-400 mr-2" />
+            <input
+              type="text"
+              value={filters.query}
+              onChange={(e) => updateFilters({ query: e.target.value })}
+              placeholder="搜索备注、分类、金额..."
+              className="bg-transparent w-full text-sm outline-none text-gray-700"
+              autoFocus
+            />
+            {filters.query && (
+              <button onClick={() => updateFilters({ query: '' })} className="text-gray-400">
+                <X size={14} />
+              </button>
+            )}
+          </div>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`p-2 rounded-lg transition-colors ${showFilters ? 'bg-indigo-50 text-indigo-600' : 'text-gray-500 hover:bg-gray-100'}`}
+          >
+            <SlidersHorizontal size={18} />
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="mt-3 space-y-3 text-xs">
+            <div className="flex items-center space-x-2">
+              <span className="text-gray-400 w-8">日期</span>
+              <input
+                type="date"
+                value={filters.startDate}
+                onChange={(e) => updateFilters({ startDate: e.target.value })}
+                className="flex-1 bg-gray-50 rounded-lg px-2 py-1.5 outline-none text-gray-700"
+              />
+              <span className="text-gray-300">-</span>
+              <input
+                type="date"
+                value={filters.endDate}
+                min={filters.startDate || undefined}
+                onChange={(e) => updateFilters({ endDate: e.target.value })}
+                className="flex-1 bg-gray-50 rounded-lg px-2 py-1.5 outline-none text-gray-700"
+              />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <span className="text-gray-400 w-8">金额</span>
+              <input
+                type="number"
+                inputMode="decimal"
+                value={filters.minAmount}
+                onChange={(e) => updateFilters({ minAmount: e.target.value })}
+                placeholder={`最小 (${symbol})`}
+                className="flex-1 min-w-0 bg-gray-50 rounded-lg px-2 py-1.5 outline-none text-gray-700"
+              />
+              <span className="text-gray-300">-</span>
+              <input
+                type="number"
+                inputMode="decimal"
+                value={filters.maxAmount}
+                onChange={(e) => updateFilters({ maxAmount: e.target.value })}
+                placeholder={`最大 (${symbol})`}
+                className="flex-1 min-w-0 bg-gray-50 rounded-lg px-2 py-1.5 outline-none text-gray-700"
+              />
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <span className="text-gray-400 w-8">类型</span>
+              {(Object.keys(TRANSACTION_TYPE_LABELS) as TransactionType[]).map(t => (
+                <button
+                  key={t}
+                  onClick={() => updateFilters({ types: toggle(filters.types, t), categoryIds: [] })}
+                  className={chipClass(filters.types.includes(t))}
+                >
+                  {TRANSACTION_TYPE_LABELS[t]}
+                </button>
+              ))}
+            </div>
+
+            {categoryOptions.length > 0 && (
+              <div className="flex items-start space-x-2">
+                <span className="text-gray-400 w-8 flex-shrink-0 pt-1">分类</span>
+                <div className="flex flex-wrap gap-1.5">
+                  {categoryOptions.map(c => (
+                    <button
+                      key={c.id}
+                      onClick={() => updateFilters({ categoryIds: toggle(filters.categoryIds, c.id) })}
+                      className={chipClass(filters.categoryIds.includes(c.id))}
+                    >
+                      {c.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {active && (
+              <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-indigo-600">
+                清除全部条件
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {active && (
+        <div className="px-6 py-2 flex justify-between text-xs text-gray-500 bg-white border-b border-gray-100">
+          <span>共 {results.length} 笔</span>
+          <span>
+            收入 {symbol}{hideAmounts ? '****' : formatCents(totalIncome)} · 支出 {symbol}{hideAmounts ? '****' : formatCents(totalExpense)}
+          </span>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto pb-10 px-4 pt-4 no-scrollbar">
+        {!active ? (
+          <p className="text-center text-sm text-gray-400 mt-16">输入关键词或设置筛选条件</p>
+        ) : results.length === 0 ? (
+          <p className="text-center text-sm text-gray-400 mt-16">没有找到匹配的记录</p>
+        ) : (
+          <TransactionList
+            expenses={results}
+            categories={categories}
+            accounts={accounts}
+            currency={currency}
+            hideAmounts={hideAmounts}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            onViewReceipts={onViewReceipts}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SearchView;
@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { ChevronLeft } from 'lucide-react';
+import { LockMode, LockSettings } from '../types';
+import * as storage from '../services/storageService';
+import {
+  IDLE_OPTIONS, PIN_MIN_LENGTH, PIN_MAX_LENGTH, MAX_ATTEMPTS, isValidPin, hashPin, verifyPin, registerFailure, getRemainingLockout
+} from '../services/lockService';
+
+interface SecuritySettingsProps {
+  settings: LockSettings;
+  onChange: (settings: LockSettings) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<LockMode, { label: string; description: string }> = {
+  full: { label: '锁定整个应用', description: '打开应用时需要输入 PIN' },
+  amounts: { label: '仅隐藏金额', description: '明细和统计金额显示为 ****，导入导出和备份恢复需先输入 PIN' },
+};
+
+// Which PIN form is open: setting a first PIN, changing it, or turning the lock off
+type PinAction = 'enable' | 'change' | 'disable';
+
+const SecuritySettings: React.FC<SecuritySettingsProps> = ({ settings, onChange, onClose }) => {
+  const [action, setAction] = useState<PinAction | null>(null);
+  const [currentPin, setCurrentPin] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const enabled = !!settings.pinHash;
+
+  const openForm = (next: PinAction) => {
+    setAction(next);
+    setCurrentPin('');
+    setNewPin('');
+    setConfirmPin('');
+  };
+
+  const handleSubmit = async () => {
+    if (!action) return;
+    setBusy(true);
+    try {
+      // Checking the current PIN counts towards the same lockout as the lock screen
+      if (action !== 'enable') {
+        const lockout = storage.getLockoutState();
+        const remaining = getRemainingLockout(lockout, Date.now());
+        if (remaining > 0) {
+          alert(`尝试次数过多，请 ${Math.ceil(remaining / 1000)} 秒后再试`);
+          return;
+        }
+        if (!(await verifyPin(currentPin, settings))) {
+          const next = registerFailure(lockout, Date.now());
+          storage.saveLockoutState(next);
+          alert(next.lockedUntil ? '当前 PIN 错误，尝试次数过多' : `当前 PIN 错误，还可尝试 ${MAX_ATTEMPTS - next.failures} 次`);
+          return;
+        }
+        storage.saveLockoutState({ failures: 0, lockedUntil: 0 });
+      }
+      if (action === 'disable') {
+        onChange({ ...settings, pinHash: null, salt: '' });
+      } else {
+        if (!isValidPin(newPin)) {
+          alert(`PIN 需为 ${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} 位数字`);
+          return;
+        }
+        if (newPin !== confirmPin) {
+          alert('两次输入的 PIN 不一致');
+          return;
+        }
+        onChange({ ...settings, ...(await hashPin(newPin)) });
+      }
+      setAction(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const pinInput = (value: string, onValueChange: (v: string) => void, placeholder: string) => (
+    <input
+      type="password"
+      inputMode="numeric"
+      maxLength={PIN_MAX_LENGTH}
+      value={value}
+      onChange={(e) => onValueChange(e.target.value.replace(/\D/g, ''))}
+      placeholder={placeholder}
+      className="w-full bg-gray-50 rounded-lg px-3 py-2 outline-none text-sm text-gray-700 tracking-widest"
+    />
+  );
+
+  const chipClass = (selected: boolean) =>
+    `px-2.5 py-1 rounded-lg text-xs transition-colors ${
+      selected ? 'bg-indigo-50 text-indigo-600 font-bold' : 'bg-gray-50 text-gray-500'
+    }`;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 max-w-md mx-auto flex flex-col">
+      <div className="bg-white px-4 py-4 shadow-sm border-b border-gray-100 flex items-center">
+        <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors">
+          <ChevronLeft size={20} />
+        </button>
+        <h2 className="flex-1 text-center text-base font-bold text-gray-900 -ml-8">应用锁</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 pb-10 no-scrollbar space-y-4 text-sm">
+        <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="text-gray-700">PIN 锁</span>
+            <span className={enabled ? 'text-indigo-600 font-bold' : 'text-gray-400'}>{enabled ? '已开启' : '未开启'}</span>
+          </div>
+          {action === null && (
+            enabled ? (
+              <div className="flex space-x-2">
+                <button onClick={() => openForm('change')} className="flex-1 py-2 rounded-xl bg-gray-50 text-gray-700">修改 PIN</button>
+                <button onClick={() => openForm('disable')} className="flex-1 py-2 rounded-xl bg-red-50 text-red-500">关闭 PIN 锁</button>
+              </div>
+            ) : (
+              <button onClick={() => openForm('enable')} className="w-full py-2.5 rounded-xl bg-indigo-600 text-white font-bold">
+                设置 PIN
+              </button>
+            )
+          )}
+          {action !== null && (
+            <div className="space-y-2">
+              {action !== 'enable' && pinInput(currentPin, setCurrentPin, '当前 PIN')}
+              {action !== 'disable' && (
+                <>
+                  {pinInput(newPin, setNewPin, `新 PIN (${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} 位数字)`)}
+                  {pinInput(confirmPin, setConfirmPin, '再次输入新 PIN')}
+                </>
+              )}
+              <div className="flex space-x-2 pt-1">
+                <button onClick={() => setAction(null)} className="flex-1 py-2 rounded-xl bg-gray-50 text-gray-500">取消</button>
+                <button
+                  onClick={handleSubmit}
+                  disabled={busy}
+                  className="flex-1 py-2 rounded-xl bg-indigo-600 text-white font-bold disabled:opacity-40"
+                >
+                  确定
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {enabled && (
+          <>
+            <div className="bg-white rounded-2xl shadow-sm overflow-hidden border border-gray-100">
+              {(Object.keys(MODE_LABELS) as LockMode[]).map((mode, idx) => (
+                <button
+                  key={mode}
+                  onClick={() => onChange({ ...settings, mode })}
+                  className={`w-full flex items-center p-4 text-left ${idx === 0 ? 'border-b border-gray-50' : ''}`}
+                >
+                  <div className="flex-1">
+                    <p className="font-medium text-gray-900">{MODE_LABELS[mode].label}</p>
+                    <p className="text-xs text-gray-400 mt-0.5">{MODE_LABELS[mode].description}</p>
+                  </div>
+                  <span className={`w-4 h-4 rounded-full border-2 ${settings.mode === mode ? 'border-indigo-600 bg-indigo-600' : 'border-gray-300'}`} />
+                </button>
+              ))}
+            </div>
+
+            <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4">
+              <p className="text-gray-700 mb-2">自动锁定</p>
+              <div className="flex flex-wrap gap-1.5">
+                {IDLE_OPTIONS.map(minutes => (
+                  <button
+                    key={minutes}
+                    onClick={() => onChange({ ...settings, idleMinutes: minutes })}
+                    className={chipClass(settings.idleMinutes === minutes)}
+                  >
+                    {minutes === 0 ? '仅切到后台时' : `闲置 ${minutes} 分钟`}
+                  </button>
+                ))}
+              </div>
+              <p className="text-xs text-gray-400 mt-2">切换到后台时总是立即锁定</p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SecuritySettings;
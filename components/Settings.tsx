@@ -0,0 +1,52 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Tags, Repeat, Wallet, History, Lock, Coins, Receipt, CalendarDays } from 'lucide-react';
+
+export type SettingsPage = 'accounts' | 'categories' | 'recurring' | 'currency' | 'period' | 'reimbursements' | 'backups' | 'security';
+
+interface SettingsProps {
+  onNavigate: (page: SettingsPage) => void;
+  onClose: () => void;
+}
+
+const MENU: { page: SettingsPage; label: string; description: string; icon: React.ReactNode }[] = [
+  { page: 'accounts', label: '账户管理', description: '现金、银行卡、支付宝等账户及余额', icon: <Wallet size={18} /> },
+  { page: 'categories', label: '分类管理', description: '新增、排序、归档收支分类', icon: <Tags size={18} /> },
+  { page: 'recurring', label: '周期记账', description: '房租、工资、订阅等自动记账规则', icon: <Repeat size={18} /> },
+  { page: 'currency', label: '币种与汇率', description: '基准货币和手动维护的汇率', icon: <Coins size={18} /> },
+  { page: 'period', label: '账期设置', description: '每月起始日、每周第一天', icon: <CalendarDays size={18} /> },
+  { page: 'reimbursements', label: '报销', description: '可报销支出的提交进度和到账收入', icon: <Receipt size={18} /> },
+  { page: 'security', label: '应用锁', description: 'PIN 解锁、自动锁定、隐藏金额', icon: <Lock size={18} /> },
+  { page: 'backups', label: '自动备份', description: '每日备份历史，一键恢复', icon: <History size={18} /> },
+];
+
+const Settings: React.FC<SettingsProps> = ({ onNavigate, onClose }) => (
+  <div className="fixed inset-0 z-30 bg-gray-50 max-w-md mx-auto flex flex-col">
+    <div className="bg-white px-4 py-4 shadow-sm border-b border-gray-100 flex items-center">
+      <button onClick={onClose} className="p-1.5 rounded-full hover:bg-gray-100 text-gray-500 transition-colors">
+        <ChevronLeft size={20} />
+      </button>
+      <h2 className="flex-1 text-center text-base font-bold text-gray-900 -ml-8">设置</h2>
+    </div>
+
+    <div className="flex-1 overflow-y-auto p-4 no-scrollbar">
+      <div className="bg-white rounded-2xl shadow-sm overflow-hidden border border-gray-100">
+        {MENU.map((item, idx) => (
+          <button
+            key={item.page}
+            onClick={() => onNavigate(item.page)}
+            className={`w-full flex items-center p-4 text-left hover:bg-gray-50 ${idx !== MENU.length - 1 ? 'border-b border-gray-50' : ''}`}
+          >
+            <div className="p-2 rounded-full mr-3 bg-indigo-50 text-indigo-600">{item.icon}</div>
+            <div className="flex-1">
+              <p className="font-medium text-gray-900 text-sm">{item.label}</p>
+              <p className="text-xs text-gray-400 mt-0.5">{item.description}</p>
+            </div>
+            <ChevronRight size={16} className="text-gray-300" />
+          </button>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default Settings;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { CategoryDef, CategoryType } from '../types';
+import { CategoryIcon } from '../constants';
+import { parseMoney, formatCents, sumMoney } from '../services/moneyService';
+
+// A line as typed: the amount stays text until the record is saved
+export interface SplitDraft {
+  category: CategoryType;
+  amount: string;
+}
+
+interface SplitEditorProps {
+  lines: SplitDraft[];
+  categories: CategoryDef[]; // categories of the record's type
+  total: number | null; // cents of the record, null while the amount is empty or invalid
+  currencySymbol: string;
+  error: string | null;
+  onChange: (lines: SplitDraft[]) => void;
+}
+
+const SplitEditor: React.FC<SplitEditorProps> = ({ lines, categories, total, currencySymbol, error, onChange }) => {
+  const assigned = sumMoney(lines.map(line => parseMoney(line.amount) ?? 0));
+  const remaining = total === null ? null : total - assigned;
+
+  const update = (index: number, patch: Partial<SplitDraft>) =>
+    onChange(lines.map((line, i) => i === index ? { ...line, ...patch } : line));
+
+  // New lines take the next unused category and whatever is left of the total
+  const addLine = () => {
+    const unused = categories.find(c => !lines.some(line => line.category === c.id));
+    onChange([...lines, {
+      category: unused ? unused.id : categories[0]?.id || '',
+      amount: remaining !== null && remaining > 0 ? formatCents(remaining) : '',
+    }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map((line, index) => {
+        const config = categories.find(c => c.id === line.category);
+        return (
+          <div key={index} className="flex items-center bg-white rounded-xl px-3 py-2 space-x-2">
+            <div className={`p-1.5 rounded-full ${config?.color || 'bg-gray-100 text-gray-500'}`}>
+              <CategoryIcon icon={config?.icon || ''} size={16} />
+            </div>
+            <select
+              value={line.category}
+              onChange={(e) => update(index, { category: e.target.value })}
+              className="flex-1 min-w-0 bg-transparent text-sm outline-none text-gray-700"
+            >
+              {categories.map(c => (
+                <option key={c.id} value={c.id}>{c.label}</option>
+              ))}
+            </select>
+            <span className="text-sm text-gray-400">{currencySymbol}</span>
+            <input
+              type="number"
+              inputMode="decimal"
+              value={line.amount}
+              onChange={(e) => update(index, { amount: e.target.value })}
+              placeholder="0.00"
+              className="w-20 bg-gray-50 rounded-lg px-2 py-1 text-sm text-right outline-none text-gray-900"
+            />
+            <button
+              onClick={() => onChange(lines.filter((_, i) => i !== index))}
+              disabled={lines.length <= 2}
+              className="p-1 text-gray-300 hover:text-red-500 disabled:opacity-30 transition-colors"
+            >
+              <Trash2 size={14} />
+            </button>
+          </div>
+        );
+      })}
+
+      <div className="flex justify-between items-center px-1 text-xs">
+        <button
+          onClick={addLine}
+          disabled={lines.length >= categories.length}
+          className="flex items-center space-x-1 text-indigo-600 font-medium disabled:opacity-30"
+        >
+          <Plus size={14} />
+          <span>添加分类</span>
+        </button>
+        {remaining !== null && (
+          <span className={remaining === 0 ? 'text-gray-400' : 'text-amber-600'}>
+            {remaining === 0
+              ? `已分配 ${currencySymbol}${formatCents(assigned)}`
+              : remaining > 0
+                ? `还差 ${currencySymbol}${formatCents(remaining)}`
+                : `超出 ${currencySymbol}${formatCents(-remaining)}`}
+          </span>
+        )}
+      </div>
+      {error && remaining === 0 && <p className="text-xs text-red-500 px-1">{error}</p>}
+    </div>
+  );
+};
+
+export default SplitEditor;
@@ -1,200 +1,192 @@
 import React, { useMemo, useState, useRef, useEffect } from 'react';
 import { 
   PieChart, Pie, Cell, ResponsiveContainer, Tooltip as RechartsTooltip,
-  BarChart, Bar, XAxis, YAxis, CartesianGrid
+  BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid
 } from 'recharts';
-import { ChevronLeft, ChevronRight, Download, Upload } from 'lucide-react';
-import { Expense } from '../types';
+import { ChevronLeft, ChevronRight, Download, Upload, Receipt } from 'lucide-react';
+import { Expense, Budget, CategoryDef, Account, PeriodSettings } from '../types';
 import { getCategoryConfig } from '../constants';
+import { computeBudgetStatuses } from '../services/budgetService';
+import { involvesAccount } from '../services/accountService';
+import { fromCents, formatCents, percentOf } from '../services/moneyService';
+import { computeTagTotals } from '../services/tagService';
+import { getCategoryShares } from '../services/splitService';
+import { OutstandingSummary, REIMBURSEMENT_STATUS_LABELS } from '../services/reimbursementService';
+import {
+  TimeRange, CompareMode, Period, Change, COMPARE_MODE_LABELS, getPeriod, getCustomPeriod, shiftPeriod,
+  getComparisonPeriod, formatPeriod, getBucketUnit, getBucketIndex, getBucketLabels, computeChange
+} from '../services/periodService';
+import { toDateKey } from '../services/dateService';
+import { buildCumulativeSpending, buildNetBalanceHistory } from '../services/trendService';
+import BudgetPanel from './BudgetPanel';
+import BudgetEditor from './BudgetEditor';
+import CategoryDetail from './CategoryDetail';
+import AccountFilter from './AccountFilter';
 
 interface StatisticsProps {
-  expenses: Expense[];
+  expenses: Expense[]; // personal records, already converted to the base currency
+  currencySymbol: string;
+  missingRates: string[]; // currencies left out of the totals for lack of a rate
+  outstanding: OutstandingSummary[]; // reimbursable expenses not paid back yet
+  onOpenReimbursements: () => void;
+  categories: CategoryDef[];
+  accounts: Account[];
+  accountFilter: string | null;
+  onAccountFilterChange: (accountId: string | null) => void;
+  budgets: Budget[];
+  periodSettings: PeriodSettings;
+  onBudgetsChange: (budgets: Budget[]) => void;
+  onShowDay: (dateKey: string) => void; // list the records of a tapped chart day
+  onEditRecord: (id: string) => void;
+  hideAmounts?: boolean; // app lock in hidden-amounts mode
+  onUnlock: () => void; // asks for the PIN, for actions that would show amounts
   onExport: () => void;
   onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
 }
 
-type TimeRange = 'day' | 'week' | 'month' | 'year';
 type ViewMode = 'expense' | 'income' | 'overview';
+type Breakdown = 'category' | 'tag';
+
+// How many earlier months the cumulative spending average can cover
+const AVERAGE_OPTIONS = [3, 6, 12];
 
 const COLORS = ['#F97316', '#3B82F6', '#EC4899', '#EAB308', '#A855F7', '#22C55E', '#6366F1', '#6B7280'];
 
-const Statistics: React.FC<StatisticsProps> = ({ expenses, onExport, onImport }) => {
+const Statistics: React.FC<StatisticsProps> = ({
+  expenses, currencySymbol, missingRates, outstanding, onOpenReimbursements, categories, accounts, accountFilter, onAccountFilterChange, budgets, periodSettings, onBudgetsChange, onShowDay, onEditRecord, hideAmounts, onUnlock, onExport, onImport
+}) => {
   const [range, setRange] = useState<TimeRange>('month');
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const [period, setPeriod] = useState<Period>(() => getPeriod('month', new Date(), periodSettings));
+  const [compareMode, setCompareMode] = useState<CompareMode>('none');
   const [viewMode, setViewMode] = useState<ViewMode>('overview');
+  const [showBudgetEditor, setShowBudgetEditor] = useState(false);
+  const [breakdown, setBreakdown] = useState<Breakdown>('category');
+  const [averageOf, setAverageOf] = useState(AVERAGE_OPTIONS[0]);
+  // Category opened from the pie or the ranking
+  const [drillCategory, setDrillCategory] = useState<string | null>(null);
   
+  const formatAmount = (value: number) => hideAmounts ? '****' : formatCents(value);
+  const formatTooltip = (digits: number) => (value: number) => `${currencySymbol}${hideAmounts ? '****' : value.toFixed(digits)}`;
+  // No amount scale on the charts while amounts are hidden
+  const amountTick = hideAmounts ? false : { fontSize: 10, fill: '#9CA3AF' };
+
   // Ref for the scrolling chart container
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
-  const navigateDate = (direction: -1 | 1) => {
-    const newDate = new Date(currentDate);
-    if (range === 'day') newDate.setDate(newDate.getDate() + direction);
-    if (range === 'week') newDate.setDate(newDate.getDate() + (direction * 7));
-    if (range === 'month') newDate.setMonth(newDate.getMonth() + direction);
-    if (range === 'year') newDate.setFullYear(newDate.getFullYear() + direction);
-    setCurrentDate(newDate);
+  const handleRangeChange = (next: TimeRange) => {
+    setRange(next);
+    // A custom range starts out as the period shown so far
+    if (next !== 'custom') setPeriod(getPeriod(next, new Date(), periodSettings));
   };
 
-  // 1. Filter expenses by Date Range only
-  const { dateFilteredExpenses, label, rangeStart, rangeEnd } = useMemo(() => {
-    const target = new Date(currentDate);
-    let start: Date, end: Date;
-    let labelText = '';
-
-    // Normalize target
-    target.setHours(0, 0, 0, 0);
-
-    switch (range) {
-      case 'day':
-        start = new Date(target);
-        end = new Date(target);
-        end.setHours(23, 59, 59, 999);
-        labelText = `${target.getFullYear()}年${target.getMonth() + 1}月${target.getDate()}日`;
-        break;
-      case 'week':
-        const day = target.getDay() || 7;
-        start = new Date(target);
-        start.setDate(target.getDate() - day + 1);
-        start.setHours(0, 0, 0, 0);
-        
-        end = new Date(start);
-        end.setDate(start.getDate() + 6);
-        end.setHours(23, 59, 59, 999);
-        
-        const startStr = `${start.getMonth() + 1}月${start.getDate()}日`;
-        const endStr = `${end.getMonth() + 1}月${end.getDate()}日`;
-        labelText = `${startStr} - ${endStr}`;
-        break;
-      case 'month':
-        start = new Date(target.getFullYear(), target.getMonth(), 1);
-        end = new Date(target.getFullYear(), target.getMonth() + 1, 0, 23, 59, 59, 999);
-        labelText = `${target.getFullYear()}年${target.getMonth() + 1}月`;
-        break;
-      case 'year':
-        start = new Date(target.getFullYear(), 0, 1);
-        end = new Date(target.getFullYear(), 11, 31, 23, 59, 59, 999);
-        labelText = `${target.getFullYear()}年`;
-        break;
-    }
+  // Re-cut the shown period when the month or week start changes
+  useEffect(() => {
+    if (range !== 'custom') setPeriod(prev => getPeriod(range, prev.start, periodSettings));
+  }, [periodSettings]);
+
+  const handleCustomChange = (startKey: string, endKey: string) => {
+    if (startKey && endKey) setPeriod(getCustomPeriod(startKey, endKey));
+  };
+
+  const comparison = useMemo(() => getComparisonPeriod(range, period, compareMode, periodSettings),
+    [range, period, compareMode, periodSettings]
+  );
 
-    const filtered = expenses.filter(e => 
-      e.date >= start.getTime() && 
-      e.date <= end.getTime()
+  // 1. Filter expenses by Date Range only, for the period and the one it is compared with
+  const { dateFilteredExpenses, comparisonExpenses } = useMemo(() => {
+    const within = (p: Period) => expenses.filter(e => 
+      e.date >= p.start.getTime() && 
+      e.date <= p.end.getTime() &&
+      (!accountFilter || involvesAccount(e, accountFilter))
     );
-    return { dateFilteredExpenses: filtered, label: labelText, rangeStart: start, rangeEnd: end };
-  }, [expenses, range, currentDate]);
+    return { dateFilteredExpenses: within(period), comparisonExpenses: comparison ? within(comparison) : [] };
+  }, [expenses, period, comparison, accountFilter]);
+
+  // Records of every date for the history charts, filtered by account only
+  const accountExpenses = useMemo(
+    () => accountFilter ? expenses.filter(e => involvesAccount(e, accountFilter)) : expenses,
+    [expenses, accountFilter]
+  );
 
   // 2. Aggregate Data based on View Mode (Totals & Pie Data)
-  const { totalIncome, totalExpense, balance, pieChartData } = useMemo(() => {
-    let inc = 0;
-    let exp = 0;
-    const categoryMap = new Map<string, number>();
-
-    dateFilteredExpenses.forEach(e => {
-      if (e.type === 'income') inc += e.amount;
-      else if (e.type === 'expense') exp += e.amount;
-
-      // Prepare Pie Data if needed
-      if (viewMode === 'expense' && e.type === 'expense') {
-        categoryMap.set(e.category, (categoryMap.get(e.category) || 0) + e.amount);
-      } else if (viewMode === 'income' && e.type === 'income') {
-        categoryMap.set(e.category, (categoryMap.get(e.category) || 0) + e.amount);
-      }
-    });
+  const { totalIncome, totalExpense, balance, pieChartData, rankingData, previous } = useMemo(() => {
+    const summarize = (list: Expense[]) => {
+      let inc = 0;
+      let exp = 0;
+      const categoryMap = new Map<string, number>();
+
+      list.forEach(e => {
+        if (e.type === 'income') inc += e.amount;
+        else if (e.type === 'expense') exp += e.amount;
+
+        // Prepare Pie Data if needed, split records counting towards each of their categories
+        if (viewMode !== 'overview' && e.type === viewMode) {
+          getCategoryShares(e).forEach(line => categoryMap.set(line.category, (categoryMap.get(line.category) || 0) + line.amount));
+        }
+      });
+      return { inc, exp, categoryMap };
+    };
 
-    let data: any[] = [];
+    const current = summarize(dateFilteredExpenses);
+    const before = comparison ? summarize(comparisonExpenses) : null;
+
+    let data: { name: string; value: number; originalId: string; change: Change | null }[] = [];
     
     if (viewMode !== 'overview') {
-      data = Array.from(categoryMap.entries()).map(([key, value]) => {
-        const config = getCategoryConfig(key);
+      // Categories used only in the comparison period still get a ranking row, at zero
+      const ids = new Set([...current.categoryMap.keys(), ...(before ? before.categoryMap.keys() : [])]);
+      data = Array.from(ids).map(key => {
+        const config = getCategoryConfig(key, categories);
+        const value = current.categoryMap.get(key) || 0;
         return {
           name: config.label,
           value: value,
-          originalId: key
+          originalId: key,
+          change: before ? computeChange(value, before.categoryMap.get(key) || 0) : null,
         };
-      }).sort((a, b) => b.value - a.value);
+      }).sort((a, b) => b.value - a.value || (a.change?.amount ?? 0) - (b.change?.amount ?? 0));
     }
 
-    return { totalIncome: inc, totalExpense: exp, balance: inc - exp, pieChartData: data };
-  }, [dateFilteredExpenses, viewMode]);
+    return {
+      totalIncome: current.inc,
+      totalExpense: current.exp,
+      balance: current.inc - current.exp,
+      pieChartData: data.filter(d => d.value > 0),
+      rankingData: data,
+      previous: before && { income: before.inc, expense: before.exp, balance: before.inc - before.exp },
+    };
+  }, [dateFilteredExpenses, comparisonExpenses, comparison, viewMode, categories]);
 
   // 3. Aggregate Trend Data for Bar Chart
   const trendData = useMemo(() => {
-    const data: { name: string; income: number; expense: number; sortIndex: number }[] = [];
-    
-    if (range === 'day') {
-      // Day: Just show Total Income vs Total Expense for today
-      data.push({
-        name: '今日',
-        income: totalIncome,
-        expense: totalExpense,
-        sortIndex: 0
-      });
-    } else if (range === 'week') {
-      // Week: 7 Days
-      const weekDays = ['周一', '周二', '周三', '周四', '周五', '周六', '周日'];
-      for(let i=0; i<7; i++) {
-         data.push({
-           name: weekDays[i],
-           income: 0,
-           expense: 0,
-           sortIndex: i
-         });
-      }
-      
-      dateFilteredExpenses.forEach(e => {
-        const d = new Date(e.date);
-        let dayIndex = d.getDay() - 1;
-        if (dayIndex === -1) dayIndex = 6;
-        
-        if (e.type === 'income') data[dayIndex].income += e.amount;
-        else data[dayIndex].expense += e.amount;
-      });
+    const unit = getBucketUnit(range, period);
+    let labels = getBucketLabels(range, period, unit, periodSettings);
+    // The current month stops at today
+    if (range === 'month' && period.end.getTime() >= Date.now() && period.start.getTime() <= Date.now()) {
+      labels = labels.slice(0, getBucketIndex(new Date(), period, unit, periodSettings) + 1);
+    }
+    const data = labels.map((name, i) => ({ name, income: 0, expense: 0, compareExpense: 0, sortIndex: i }));
 
-    } else if (range === 'month') {
-      // Month: Show every day of the month
-      const year = rangeStart.getFullYear();
-      const month = rangeStart.getMonth();
-      const daysInMonth = new Date(year, month + 1, 0).getDate();
-      
-      // Determine the limit day: if it's current month, stop at today
-      const now = new Date();
-      let limitDay = daysInMonth;
-      if (year === now.getFullYear() && month === now.getMonth()) {
-        limitDay = now.getDate();
-      }
-
-      for(let i=1; i<=limitDay; i++) {
-        data.push({ name: `${month + 1}/${i}`, income: 0, expense: 0, sortIndex: i });
-      }
-
-      dateFilteredExpenses.forEach(e => {
-        const d = new Date(e.date);
-        const day = d.getDate();
-        // Only add if day is within our limit (handle case where future expenses exist in DB but we are limiting chart)
-        if (day <= limitDay) {
-            // data index is day - 1
-            if (e.type === 'income') data[day - 1].income += e.amount;
-            else data[day - 1].expense += e.amount;
-        }
+    // Records outside the charted buckets (e.g. later this month) are left out
+    const add = (list: Expense[], p: Period, apply: (row: typeof data[number], e: Expense) => void) =>
+      list.forEach(e => {
+        const row = data[getBucketIndex(new Date(e.date), p, unit, periodSettings)];
+        if (row) apply(row, e);
       });
 
-    } else if (range === 'year') {
-      // Year: 12 Months
-      for(let i=1; i<=12; i++) {
-        data.push({ name: `${i}月`, income: 0, expense: 0, sortIndex: i });
-      }
-
-      dateFilteredExpenses.forEach(e => {
-        const d = new Date(e.date);
-        const monthIndex = d.getMonth(); // 0-11
-        if (e.type === 'income') data[monthIndex].income += e.amount;
-        else data[monthIndex].expense += e.amount;
+    add(dateFilteredExpenses, period, (row, e) => {
+      if (e.type === 'income') row.income += e.amount;
+      else if (e.type === 'expense') row.expense += e.amount;
+    });
+    if (comparison) {
+      add(comparisonExpenses, comparison, (row, e) => {
+        if (e.type === 'expense') row.compareExpense += e.amount;
       });
     }
 
-    return data;
-  }, [dateFilteredExpenses, range, rangeStart, totalIncome, totalExpense]);
+    // Summed in cents, charted in currency units
+    return data.map(d => ({ ...d, income: fromCents(d.income), expense: fromCents(d.expense), compareExpense: fromCents(d.compareExpense) }));
+  }, [dateFilteredExpenses, comparisonExpenses, range, period, comparison, periodSettings]);
 
   // Auto-scroll to the end (today) when data updates, especially for 'month' view
   useEffect(() => {
@@ -208,49 +200,139 @@ const Statistics: React.FC<StatisticsProps> = ({ expenses, onExport, onImport })
     }
   }, [trendData, range]);
 
+  // Running spending through the month shown, against the previous month and the recent average
+  const cumulativeData = useMemo(() => {
+    if (range !== 'month') return [];
+    return buildCumulativeSpending(accountExpenses, period, periodSettings, averageOf).map(d => ({
+      ...d,
+      current: d.current === null ? null : fromCents(d.current),
+      previous: fromCents(d.previous),
+      average: d.average === null ? null : fromCents(d.average),
+    }));
+  }, [accountExpenses, range, period, periodSettings, averageOf]);
+
+  const netBalanceData = useMemo(
+    () => buildNetBalanceHistory(accountExpenses, periodSettings).map(d => ({ ...d, net: fromCents(d.net), balance: fromCents(d.balance) })),
+    [accountExpenses, periodSettings]
+  );
+
+  const tooltipStyle = { borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' };
+
+  // Budgets are monthly, so they only apply to the month range
+  const budgetStatuses = useMemo(() => {
+    if (range !== 'month') return [];
+    return computeBudgetStatuses(budgets, expenses, period.start.getFullYear(), period.start.getMonth(), periodSettings.monthStartDay);
+  }, [budgets, expenses, range, period, periodSettings]);
+
   const currentTotal = viewMode === 'income' ? totalIncome : totalExpense;
 
+  const tagTotals = useMemo(
+    () => viewMode === 'overview' ? [] : computeTagTotals(dateFilteredExpenses, viewMode),
+    [dateFilteredExpenses, viewMode]
+  );
+  const maxTagAmount = tagTotals.reduce((max, t) => Math.max(max, t.amount), 0);
+
+  // "↑ ¥12.00 15.0%" against the comparison period; red when it moved the wrong way
+  const renderChange = (change: Change, increaseIsGood: boolean, className = '') => {
+    if (change.amount === 0) return <span className={`text-gray-400 ${className}`}>持平</span>;
+    const good = (change.amount > 0) === increaseIsGood;
+    return (
+      <span className={`${good ? 'text-green-600' : 'text-red-500'} ${className}`}>
+        {change.amount > 0 ? '↑' : '↓'} {currencySymbol}{formatAmount(Math.abs(change.amount))}
+        {change.percent !== null && ` ${Math.abs(change.percent).toFixed(1)}%`}
+      </span>
+    );
+  };
+
+  const budgetPanel = range === 'month' && (
+    <BudgetPanel
+      statuses={budgetStatuses}
+      categories={categories}
+      currencySymbol={currencySymbol}
+      hideAmounts={hideAmounts}
+      onEdit={() => hideAmounts ? onUnlock() : setShowBudgetEditor(true)}
+    />
+  );
+
   return (
     <div className="w-full flex flex-col space-y-4">
       {/* Range Selector */}
-      <div className="bg-white p-1 rounded-xl shadow-sm border border-gray-100 grid grid-cols-4 gap-1 mx-1">
-        {(['day', 'week', 'month', 'year'] as TimeRange[]).map((r) => (
+      <div className="bg-white p-1 rounded-xl shadow-sm border border-gray-100 grid grid-cols-5 gap-1 mx-1">
+        {(['day', 'week', 'month', 'year', 'custom'] as TimeRange[]).map((r) => (
           <button
             key={r}
-            onClick={() => {
-                setRange(r);
-                setCurrentDate(new Date());
-            }}
+            onClick={() => handleRangeChange(r)}
             className={`text-xs font-medium py-1.5 rounded-lg transition-all ${
               range === r 
                 ? 'bg-indigo-50 text-indigo-600 font-bold' 
                 : 'text-gray-400 hover:bg-gray-50'
             }`}
           >
-            {r === 'day' ? '日' : r === 'week' ? '周' : r === 'month' ? '月' : '年'}
+            {r === 'day' ? '日' : r === 'week' ? '周' : r === 'month' ? '月' : r === 'year' ? '年' : '自定义'}
           </button>
         ))}
       </div>
 
       {/* Date Navigator */}
-      <div className="flex items-center justify-between px-4 py-3 bg-white mx-1 rounded-xl border border-gray-100 shadow-sm">
-        <button 
-          onClick={() => navigateDate(-1)} 
-          className="p-1 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
-        >
-          <ChevronLeft size={20} />
-        </button>
-        <span className="font-bold text-gray-800 text-sm">{label}</span>
-        <button 
-          onClick={() => navigateDate(1)} 
-          className="p-1 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
-        >
-          <ChevronRight size={20} />
-        </button>
+      <div className="bg-white mx-1 rounded-xl border border-gray-100 shadow-sm">
+        <div className="flex items-center justify-between px-4 py-3">
+          <button 
+            onClick={() => setPeriod(shiftPeriod(range, period, -1, periodSettings))} 
+            className="p-1 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+          >
+            <ChevronLeft size={20} />
+          </button>
+          {range === 'custom' ? (
+            <div className="flex items-center space-x-1 text-xs">
+              <input
+                type="date"
+                value={toDateKey(period.start)}
+                onChange={(e) => handleCustomChange(e.target.value, toDateKey(period.end))}
+                className="bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+              />
+              <span className="text-gray-400">至</span>
+              <input
+                type="date"
+                value={toDateKey(period.end)}
+                onChange={(e) => handleCustomChange(toDateKey(period.start), e.target.value)}
+                className="bg-gray-50 rounded-lg px-2 py-1 outline-none text-gray-700"
+              />
+            </div>
+          ) : (
+            <span className="font-bold text-gray-800 text-sm">{formatPeriod(range, period)}</span>
+          )}
+          <button 
+            onClick={() => setPeriod(shiftPeriod(range, period, 1, periodSettings))} 
+            className="p-1 text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 rounded-full transition-colors"
+          >
+            <ChevronRight size={20} />
+          </button>
+        </div>
+        <div className="flex items-center justify-between px-4 pb-3 text-xs">
+          <div className="flex space-x-1">
+            {(Object.keys(COMPARE_MODE_LABELS) as CompareMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setCompareMode(mode)}
+                className={`px-2 py-0.5 rounded-md transition-colors ${
+                  compareMode === mode ? 'bg-indigo-50 text-indigo-600 font-bold' : 'text-gray-400 hover:bg-gray-50'
+                }`}
+              >
+                {COMPARE_MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+          {comparison && (
+            <span className="text-gray-400 truncate ml-2">
+              对比 {formatPeriod(range === 'week' ? 'custom' : range, comparison)}
+            </span>
+          )}
+        </div>
       </div>
 
       {/* View Mode Toggle */}
-      <div className="flex justify-center">
+      <div className="flex justify-between items-center mx-1">
+        <AccountFilter accounts={accounts} value={accountFilter} onChange={onAccountFilterChange} />
         <div className="bg-gray-100 p-1 rounded-lg flex space-x-1">
             <button 
                 onClick={() => setViewMode('overview')}
@@ -279,6 +361,12 @@ const Statistics: React.FC<StatisticsProps> = ({ expenses, onExport, onImport })
         </div>
       </div>
 
+      {missingRates.length > 0 && (
+        <p className="mx-1 text-xs text-amber-600">
+          {missingRates.join('、')} 缺少汇率，相关记录未计入统计
+        </p>
+      )}
+
       {/* Overview Mode Content */}
       {viewMode === 'overview' && (
         <>
@@ -286,43 +374,80 @@ const Statistics: React.FC<StatisticsProps> = ({ expenses, onExport, onImport })
             <div className="grid grid-cols-2 gap-2 mx-1">
                 <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
                     <p className="text-gray-400 text-xs mb-1">总收入</p>
-                    <p className="text-lg font-bold text-green-600">¥{totalIncome.toFixed(2)}</p>
+                    <p className="text-lg font-bold text-green-600">{currencySymbol}{formatAmount(totalIncome)}</p>
+                    {previous && renderChange(computeChange(totalIncome, previous.income), true, 'block text-[10px] mt-0.5')}
                 </div>
                 <div className="bg-white p-4 rounded-xl shadow-sm border border-gray-100">
                     <p className="text-gray-400 text-xs mb-1">总支出</p>
-                    <p className="text-lg font-bold text-gray-900">¥{totalExpense.toFixed(2)}</p>
+                    <p className="text-lg font-bold text-gray-900">{currencySymbol}{formatAmount(totalExpense)}</p>
+                    {previous && renderChange(computeChange(totalExpense, previous.expense), false, 'block text-[10px] mt-0.5')}
                 </div>
                 <div className="bg-indigo-600 p-4 rounded-xl shadow-md col-span-2 text-white flex justify-between items-center">
                     <div>
                         <p className="text-indigo-200 text-xs mb-1">结余</p>
-                        <p className="text-2xl font-bold">¥{balance.toFixed(2)}</p>
+                        <p className="text-2xl font-bold">{currencySymbol}{formatAmount(balance)}</p>
                     </div>
                     <div className="text-right">
                         <p className="text-indigo-200 text-xs">净收益</p>
+                        {previous && (
+                            <p className="text-indigo-100 text-[10px] mt-0.5">
+                                较对比期 {balance >= previous.balance ? '+' : '-'}{currencySymbol}{formatAmount(Math.abs(balance - previous.balance))}
+                            </p>
+                        )}
                     </div>
                 </div>
             </div>
 
+            {budgetPanel}
+
+            {outstanding.some(o => o.count > 0) && (
+                <button
+                    onClick={onOpenReimbursements}
+                    className="mx-1 w-[calc(100%-0.5rem)] bg-white p-4 rounded-xl shadow-sm border border-gray-100 text-left active:scale-[0.99] transition-transform"
+                >
+                    <div className="flex items-center justify-between mb-2">
+                        <h3 className="flex items-center text-sm font-bold text-gray-700">
+                            <Receipt size={16} className="mr-1.5 text-indigo-600" />
+                            待报销
+                        </h3>
+                        <ChevronRight size={16} className="text-gray-300" />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                        {outstanding.map(o => (
+                            <div key={o.status}>
+                                <p className="text-gray-400 text-xs">{REIMBURSEMENT_STATUS_LABELS[o.status]} · {o.count} 笔</p>
+                                <p className="text-base font-bold text-gray-900">{currencySymbol}{formatAmount(o.amount)}</p>
+                            </div>
+                        ))}
+                    </div>
+                    <p className="text-[10px] text-gray-400 mt-2">已报销的支出不计入收支统计，到账收入只计入扣除报销后的部分</p>
+                </button>
+            )}
+
             {/* Data Management Section - ONLY IN OVERVIEW */}
             <div className="mx-1 mt-2 mb-2">
                 <h3 className="text-sm font-bold text-gray-500 mb-2 px-1">数据管理</h3>
                 <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-4">
                     <div className="flex space-x-3">
                         <button 
-                            onClick={onExport}
+                            onClick={hideAmounts ? onUnlock : onExport}
                             className="flex-1 flex flex-col items-center justify-center py-4 bg-indigo-50 rounded-xl text-indigo-700 active:scale-95 transition-transform"
                         >
                             <Download size={24} className="mb-2" />
                             <span className="text-xs font-bold">导出数据</span>
                         </button>
                         <div className="flex-1 relative">
-                            <input 
-                                type="file" 
-                                accept=".json" 
-                                onChange={onImport}
-                                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
-                            />
+                            {/* The file picker only opens once unlocked */}
+                            {!hideAmounts && (
+                                <input 
+                                    type="file" 
+                                    accept=".json,.csv" 
+                                    onChange={onImport}
+                                    className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
+                                />
+                            )}
                             <button 
+                                onClick={hideAmounts ? onUnlock : undefined}
                                 className="w-full h-full flex flex-col items-center justify-center py-4 bg-emerald-50 rounded-xl text-emerald-700 active:scale-95 transition-transform"
                             >
                                 <Upload size={24} className="mb-2" />
@@ -331,16 +456,16 @@ const Statistics: React.FC<StatisticsProps> = ({ expenses, onExport, onImport })
                         </div>
                     </div>
                     <p className="text-[10px] text-gray-400 mt-2 text-center">
-                        支持导入 .json 格式的备份文件，重复记录将被自动跳过
+                        支持导入 .json 备份 (含加密备份)，或支付宝、微信、银行导出的 .csv 账单
                     </p>
                 </div>
             </div>
 
             {/* Income vs Expense Bar Chart */}
             <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 mx-1 flex flex-col h-64">
-                <h3 className="text-xs font-bold text-gray-400 mb-4">收支对比</h3>
+                <h3 className="text-xs font-bold text-gray-400 mb-4">{comparison ? `支出对比（本期 vs ${COMPARE_MODE_LABELS[compareMode].slice(2)}）` : '收支对比'}</h3>
                 <div ref={scrollContainerRef} className="flex-1 overflow-x-auto no-scrollbar pb-2">
-                    <div style={{ minWidth: range === 'month' ? `${trendData.length * 40}px` : '100%', height: '100%' }}>
+                    <div style={{ minWidth: trendData.length > 12 ? `${trendData.length * 40}px` : '100%', height: '100%' }}>
                         <ResponsiveContainer width="100%" height="100%">
                             <BarChart data={trendData} margin={{ top: 5, right: 5, bottom: 5, left: -20 }}>
                                 <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
@@ -354,20 +479,102 @@ const Statistics: React.FC<StatisticsProps> = ({ expenses, onExport, onImport })
                                 <YAxis 
                                     axisLine={false} 
                                     tickLine={false} 
-                                    tick={{ fontSize: 10, fill: '#9CA3AF' }} 
+                                    tick={amountTick} 
                                 />
                                 <RechartsTooltip 
-                                    formatter={(value: number) => `¥${value.toFixed(0)}`}
-                                    contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }}
+                                    formatter={formatTooltip(0)}
+                                    contentStyle={tooltipStyle}
                                     cursor={{ fill: '#F3F4F6' }}
                                 />
-                                <Bar dataKey="income" name="收入" fill="#22C55E" radius={[4, 4, 0, 0]} maxBarSize={30} />
-                                <Bar dataKey="expense" name="支出" fill="#374151" radius={[4, 4, 0, 0]} maxBarSize={30} />
+                                {comparison ? (
+                                    <>
+                                        <Bar dataKey="expense" name="本期支出" fill="#374151" radius={[4, 4, 0, 0]} maxBarSize={30} />
+                                        <Bar dataKey="compareExpense" name="对比期支出" fill="#A5B4FC" radius={[4, 4, 0, 0]} maxBarSize={30} />
+                                    </>
+                                ) : (
+                                    <>
+                                        <Bar dataKey="income" name="收入" fill="#22C55E" radius={[4, 4, 0, 0]} maxBarSize={30} />
+                                        <Bar dataKey="expense" name="支出" fill="#374151" radius={[4, 4, 0, 0]} maxBarSize={30} />
+                                    </>
+                                )}
                             </BarChart>
                         </ResponsiveContainer>
                     </div>
                 </div>
             </div>
+
+            {/* Cumulative Spending Line Chart */}
+            {range === 'month' && (
+                <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 mx-1 flex flex-col h-72">
+                    <div className="flex justify-between items-center mb-1">
+                        <h3 className="text-xs font-bold text-gray-400">累计支出</h3>
+                        <div className="flex space-x-1 text-[10px]">
+                            {AVERAGE_OPTIONS.map(n => (
+                                <button
+                                    key={n}
+                                    onClick={() => setAverageOf(n)}
+                                    className={`px-1.5 py-0.5 rounded-md transition-colors ${
+                                        averageOf === n ? 'bg-indigo-50 text-indigo-600 font-bold' : 'text-gray-400 hover:bg-gray-50'
+                                    }`}
+                                >
+                                    近{n}月均值
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex space-x-3 text-[10px] text-gray-400 mb-2">
+                        <span className="flex items-center"><span className="w-3 h-0.5 bg-indigo-600 mr-1" />本月</span>
+                        <span className="flex items-center"><span className="w-3 h-0.5 bg-gray-400 mr-1" />上月</span>
+                        <span className="flex items-center"><span className="w-3 h-0.5 bg-amber-400 mr-1" />均值</span>
+                    </div>
+                    <div className="flex-1">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart
+                                data={cumulativeData}
+                                margin={{ top: 5, right: 5, bottom: 5, left: -20 }}
+                                onClick={(state) => {
+                                    const point = state?.activeTooltipIndex !== undefined ? cumulativeData[state.activeTooltipIndex] : undefined;
+                                    if (point) onShowDay(point.dateKey);
+                                }}
+                            >
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+                                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#9CA3AF' }} minTickGap={16} />
+                                <YAxis axisLine={false} tickLine={false} tick={amountTick} />
+                                <RechartsTooltip
+                                    formatter={formatTooltip(2)}
+                                    contentStyle={tooltipStyle}
+                                />
+                                <Line dataKey="current" name="本月" stroke="#4F46E5" strokeWidth={2} dot={false} connectNulls={false} />
+                                <Line dataKey="previous" name="上月" stroke="#9CA3AF" strokeDasharray="4 3" dot={false} />
+                                <Line dataKey="average" name={`近${averageOf}月均值`} stroke="#FBBF24" strokeDasharray="4 3" dot={false} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                    <p className="text-[10px] text-gray-400 mt-1 text-center">点击图表查看当天明细</p>
+                </div>
+            )}
+
+            {/* Net Balance History Line Chart */}
+            {netBalanceData.length > 0 && (
+                <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 mx-1 flex flex-col h-64">
+                    <h3 className="text-xs font-bold text-gray-400 mb-4">累计结余（全部历史）</h3>
+                    <div className="flex-1">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={netBalanceData} margin={{ top: 5, right: 5, bottom: 5, left: -20 }}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
+                                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10, fill: '#9CA3AF' }} minTickGap={16} />
+                                <YAxis axisLine={false} tickLine={false} tick={amountTick} />
+                                <RechartsTooltip
+                                    formatter={formatTooltip(2)}
+                                    contentStyle={tooltipStyle}
+                                />
+                                <Line dataKey="balance" name="累计结余" stroke="#4F46E5" strokeWidth={2} dot={netBalanceData.length <= 24} />
+                                <Line dataKey="net" name="当月结余" stroke="#22C55E" strokeDasharray="4 3" dot={false} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                </div>
+            )}
         </>
       )}
 
@@ -377,16 +584,63 @@ const Statistics: React.FC<StatisticsProps> = ({ expenses, onExport, onImport })
             <div className="bg-white p-6 rounded-2xl shadow-sm border border-gray-100 text-center mx-1">
                 <p className="text-gray-500 text-xs mb-1">{viewMode === 'expense' ? '总支出' : '总收入'}</p>
                 <h2 className={`text-3xl font-bold ${viewMode === 'expense' ? 'text-gray-900' : 'text-green-600'}`}>
-                    ¥ {currentTotal.toFixed(2)}
+                    {currencySymbol} {formatAmount(currentTotal)}
                 </h2>
+                {previous && (
+                    <p className="text-xs mt-1">
+                        {renderChange(computeChange(currentTotal, viewMode === 'income' ? previous.income : previous.expense), viewMode === 'income')}
+                        <span className="text-gray-400 ml-1">较对比期</span>
+                    </p>
+                )}
             </div>
 
+            {viewMode === 'expense' && budgetPanel}
+
             <div className="bg-white p-4 rounded-2xl shadow-sm border border-gray-100 flex-1 mx-1 flex flex-col min-h-[350px]">
+                <div className="flex justify-end">
+                    <div className="bg-gray-100 p-0.5 rounded-lg flex space-x-0.5">
+                        {(['category', 'tag'] as Breakdown[]).map(b => (
+                            <button
+                                key={b}
+                                onClick={() => setBreakdown(b)}
+                                className={`px-2.5 py-0.5 rounded-md text-[10px] font-medium transition-all ${
+                                    breakdown === b ? 'bg-white shadow text-gray-900' : 'text-gray-400'
+                                }`}
+                            >
+                                {b === 'category' ? '按分类' : '按标签'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
                 {/* Conditional Chart Rendering */}
                 {currentTotal === 0 ? (
                      <div className="flex flex-col items-center justify-center flex-1 text-gray-400">
                         <p className="text-sm">该时段暂无数据</p>
                      </div>
+                ) : breakdown === 'tag' ? (
+                    <div className="mt-3 space-y-3">
+                        {tagTotals.map(item => (
+                            <div key={item.tag ?? ''} className="text-xs">
+                                <div className="flex justify-between items-center mb-1">
+                                    <span className={item.tag ? 'text-gray-700 font-medium' : 'text-gray-400'}>
+                                        {item.tag ? `#${item.tag}` : '无标签'}
+                                        <span className="text-gray-400 font-normal ml-1">{item.count} 笔</span>
+                                    </span>
+                                    <div className="flex space-x-3 items-center">
+                                        <span className="text-gray-400 w-10 text-right">{percentOf(item.amount, currentTotal).toFixed(1)}%</span>
+                                        <span className="font-semibold text-gray-900 w-20 text-right">{currencySymbol}{formatAmount(item.amount)}</span>
+                                    </div>
+                                </div>
+                                <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                                    <div
+                                        className={`h-full rounded-full ${item.tag ? 'bg-indigo-500' : 'bg-gray-300'}`}
+                                        style={{ width: `${maxTagAmount > 0 ? (item.amount / maxTagAmount) * 100 : 0}%` }}
+                                    />
+                                </div>
+                            </div>
+                        ))}
+                        <p className="text-[10px] text-gray-400 pt-1">一笔记录可带多个标签，各标签合计可能超过总额</p>
+                    </div>
                 ) : (
                     <>
                         {/* PIE CHART VIEW */}
@@ -401,13 +655,15 @@ const Statistics: React.FC<StatisticsProps> = ({ expenses, onExport, onImport })
                                         outerRadius={75}
                                         paddingAngle={4}
                                         dataKey="value"
+                                        onClick={(entry) => setDrillCategory(entry.originalId)}
+                                        className="cursor-pointer"
                                     >
                                         {pieChartData.map((entry, index) => (
                                             <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                                         ))}
                                     </Pie>
                                     <RechartsTooltip 
-                                        formatter={(value: number) => `¥${value.toFixed(2)}`}
+                                        formatter={(value: number) => `${currencySymbol}${formatAmount(value)}`}
                                         contentStyle={{ 
                                             backgroundColor: 'rgba(255, 255, 255, 0.95)',
                                             borderRadius: '12px', 
@@ -421,17 +677,24 @@ const Statistics: React.FC<StatisticsProps> = ({ expenses, onExport, onImport })
                             </ResponsiveContainer>
                         </div>
                         <div className="mt-2 space-y-3 overflow-y-auto max-h-48 no-scrollbar">
-                            {pieChartData.map((item, index) => {
-                                const percentage = currentTotal > 0 ? ((item.value / currentTotal) * 100).toFixed(1) : '0.0';
+                            {rankingData.map((item, index) => {
+                                const percentage = percentOf(item.value, currentTotal).toFixed(1);
                                 return (
-                                <div key={item.name} className="flex items-center justify-between text-xs py-1 border-b border-gray-50 last:border-0">
+                                <div
+                                    key={item.originalId}
+                                    onClick={() => setDrillCategory(item.originalId)}
+                                    className="flex items-center justify-between text-xs py-1 border-b border-gray-50 last:border-0 cursor-pointer active:bg-gray-50"
+                                >
                                     <div className="flex items-center space-x-2">
-                                    <div className="w-2.5 h-2.5 rounded-full shadow-sm" style={{ backgroundColor: COLORS[index % COLORS.length] }}></div>
+                                    <div className="w-2.5 h-2.5 rounded-full shadow-sm" style={{ backgroundColor: item.value > 0 ? COLORS[index % COLORS.length] : '#E5E7EB' }}></div>
                                     <span className="text-gray-700 font-medium">{item.name}</span>
                                     </div>
                                     <div className="flex space-x-3 items-center">
                                     <span className="text-gray-400 w-10 text-right">{percentage}%</span>
-                                    <span className="font-semibold text-gray-900 w-20 text-right">¥{item.value.toFixed(2)}</span>
+                                    <span className="w-24 text-right">
+                                        <span className="block font-semibold text-gray-900">{currencySymbol}{formatAmount(item.value)}</span>
+                                        {item.change && renderChange(item.change, viewMode === 'income', 'block text-[10px]')}
+                                    </span>
                                     </div>
                                 </div>
                                 )
@@ -442,6 +705,34 @@ const Statistics: React.FC<StatisticsProps> = ({ expenses, onExport, onImport })
             </div>
         </>
       )}
+
+      {drillCategory && viewMode !== 'overview' && (
+        <CategoryDetail
+          category={drillCategory}
+          type={viewMode}
+          expenses={dateFilteredExpenses}
+          range={range}
+          period={period}
+          periodSettings={periodSettings}
+          total={currentTotal}
+          categories={categories}
+          currencySymbol={currencySymbol}
+          hideAmounts={hideAmounts}
+          onEdit={onEditRecord}
+          onClose={() => setDrillCategory(null)}
+        />
+      )}
+
+      {showBudgetEditor && (
+        <BudgetEditor
+          budgets={budgets}
+          categories={categories}
+          currencySymbol={currencySymbol}
+          monthStartDay={periodSettings.monthStartDay}
+          onSave={onBudgetsChange}
+          onClose={() => setShowBudgetEditor(false)}
+        />
+      )}
     </div>
   );
 };
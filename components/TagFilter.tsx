@@ -0,0 +1,26 @@
+import React from 'react';
+import { Hash } from 'lucide-react';
+
+interface TagFilterProps {
+  tags: string[];
+  value: string | null; // null = all records
+  onChange: (tag: string | null) => void;
+}
+
+const TagFilter: React.FC<TagFilterProps> = ({ tags, value, onChange }) => (
+  <div className={`relative flex items-center rounded-lg pl-2 pr-2 py-1 text-xs ${value ? 'bg-indigo-50 text-indigo-600' : 'bg-gray-50 text-gray-600'}`}>
+    <Hash size={14} className={`mr-1 ${value ? '' : 'text-gray-400'}`} />
+    <select
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      className="bg-transparent outline-none appearance-none pr-1 max-w-[96px]"
+    >
+      <option value="">全部标签</option>
+      {tags.map(tag => (
+        <option key={tag} value={tag}>{tag}</option>
+      ))}
+    </select>
+  </div>
+);
+
+export default TagFilter;
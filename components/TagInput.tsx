@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { Hash, X } from 'lucide-react';
+import { normalizeTag, suggestTags } from '../services/tagService';
+
+interface TagInputProps {
+  value: string[];
+  allTags: string[]; // known tags, most used first
+  onChange: (tags: string[]) => void;
+}
+
+// Chips for the chosen tags plus a text field; Enter, space or a comma adds the typed tag
+const TagInput: React.FC<TagInputProps> = ({ value, allTags, onChange }) => {
+  const [input, setInput] = useState('');
+  const [focused, setFocused] = useState(false);
+
+  const addTag = (text: string) => {
+    const tag = normalizeTag(text);
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setInput('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === '，' || e.key === ' ') {
+      e.preventDefault();
+      addTag(input);
+    } else if (e.key === 'Backspace' && !input && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const suggestions = focused ? suggestTags(allTags, input, value) : [];
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-1.5 bg-gray-50 rounded-lg px-3 py-2">
+        <Hash size={14} className="text-gray-400" />
+        {value.map(tag => (
+          <span key={tag} className="flex items-center bg-indigo-50 text-indigo-600 rounded-md pl-2 pr-1 py-0.5 text-xs">
+            {tag}
+            <button onClick={() => onChange(value.filter(t => t !== tag))} className="ml-0.5 p-0.5">
+              <X size={10} />
+            </button>
+          </span>
+        ))}
+        <input
+          type="text"
+          value={input}
+          onChange={(e) => {
+            // Pasted or IME text may carry separators
+            const parts = e.target.value.split(/[,，]/);
+            if (parts.length > 1) {
+              const added = parts.slice(0, -1).map(normalizeTag).filter(t => t && !value.includes(t));
+              onChange(Array.from(new Set([...value, ...added])));
+            }
+            setInput(parts[parts.length - 1]);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            if (input.trim()) addTag(input);
+          }}
+          placeholder={value.length === 0 ? '添加标签，如 旅行-日本2026' : ''}
+          className="flex-1 min-w-[80px] bg-transparent text-sm outline-none text-gray-700"
+        />
+      </div>
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 mt-2">
+          {suggestions.map(tag => (
+            <button
+              key={tag}
+              // Keep the focus in the text field so the list stays open
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => addTag(tag)}
+              className="px-2 py-0.5 rounded-md bg-white border border-gray-100 text-xs text-gray-500"
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
@@ -0,0 +1,130 @@
+import React from 'react';
+import { Trash2, Repeat } from 'lucide-react';
+import { Expense, CategoryDef, Account, CurrencySettings } from '../types';
+import { getCategoryConfig, getAccountName, CategoryIcon } from '../constants';
+import { groupByDateKey } from '../services/dateService';
+import { getCurrencySymbol, toBaseAmount } from '../services/currencyService';
+import { formatCents, sumMoney } from '../services/moneyService';
+import { REIMBURSEMENT_STATUS_LABELS } from '../services/reimbursementService';
+import { DayTotal } from '../services/calendarService';
+import ReceiptThumb from './ReceiptThumb';
+
+interface TransactionListProps {
+  expenses: Expense[]; // sorted by date, newest first
+  categories: CategoryDef[];
+  accounts: Account[];
+  currency: CurrencySettings;
+  accountFilter?: string | null; // account the list is viewed from, signs transfers
+  runningBalances?: Map<string, number>;
+  dayTotals?: Map<string, DayTotal>; // subtotals by YYYY-MM-DD, e.g. of the personal records only
+  hideAmounts?: boolean; // app lock in hidden-amounts mode
+  onEdit: (expense: Expense) => void;
+  onDelete: (id: string) => void;
+  onViewReceipts?: (ids: string[], index: number) => void;
+}
+
+// Records grouped by day with daily income/expense subtotals in the base currency.
+// Each row shows its original amount, plus the converted one for foreign currencies.
+const TransactionList: React.FC<TransactionListProps> = ({
+  expenses, categories, accounts, currency, accountFilter, runningBalances, dayTotals, hideAmounts, onEdit, onDelete, onViewReceipts
+}) => {
+  const grouped = groupByDateKey(expenses);
+  const formatAmount = (value: number) => hideAmounts ? '****' : formatCents(value);
+  const baseSymbol = getCurrencySymbol(currency.baseCurrency);
+  const dayTotal = (date: string, items: Expense[], type: 'income' | 'expense') => dayTotals
+    ? dayTotals.get(date)?.[type] || 0
+    : sumMoney(items.filter(i => i.type === type).map(i => toBaseAmount(i, currency) ?? 0));
+
+  return (
+    <>
+      {Object.entries(grouped).map(([date, items]: [string, Expense[]]) => (
+        <div key={date} className="mb-6">
+          <div className="flex items-center justify-between mb-2 px-2">
+            <span className="text-sm font-semibold text-gray-500">{date}</span>
+            <div className="flex space-x-3 text-xs text-gray-400">
+              {items.some(i => i.type === 'income') && <span>收: {formatAmount(dayTotal(date, items, 'income'))}</span>}
+              {items.some(i => i.type === 'expense') && <span>支: {formatAmount(dayTotal(date, items, 'expense'))}</span>}
+            </div>
+          </div>
+          <div className="bg-white rounded-2xl shadow-sm overflow-hidden border border-gray-100">
+            {items.map((item, idx) => {
+              const catConfig = getCategoryConfig(item.category, categories);
+              const isForeign = item.currency !== currency.baseCurrency;
+              const baseAmount = isForeign ? toBaseAmount(item, currency) : null;
+              // Transfers only carry a sign when viewed from one of their accounts
+              const sign = item.type === 'income' ? '+'
+                : item.type === 'expense' ? '-'
+                : accountFilter ? (item.toAccountId === accountFilter ? '+' : '-') : '';
+              return (
+                <div
+                  key={item.id}
+                  onClick={() => onEdit(item)}
+                  className={`flex items-center p-4 cursor-pointer active:bg-gray-50 ${idx !== items.length - 1 ? 'border-b border-gray-50' : ''}`}
+                >
+                  <div className={`p-2 rounded-full mr-3 ${catConfig.color} bg-opacity-20`}>
+                    <CategoryIcon icon={catConfig.icon} size={18} />
+                  </div>
+                  <div className="flex-1">
+                    <div className="flex justify-between items-center">
+                      <span className="font-medium text-gray-900 flex items-center">
+                        {item.splits
+                          ? item.splits.map(line => getCategoryConfig(line.category, categories).label).join('/')
+                          : catConfig.label}
+                        {item.recurringId && <Repeat size={12} className="ml-1 text-gray-300" />}
+                        {item.reimbursement && (
+                          <span className="ml-1.5 px-1.5 py-0.5 rounded bg-indigo-50 text-indigo-600 text-[10px] font-normal">
+                            {REIMBURSEMENT_STATUS_LABELS[item.reimbursement]}
+                          </span>
+                        )}
+                      </span>
+                      <span className="flex flex-col items-end">
+                        <span className={`font-bold ${item.type === 'income' ? 'text-green-600' : item.type === 'transfer' ? 'text-gray-500' : 'text-gray-900'}`}>
+                          {sign} {isForeign && getCurrencySymbol(item.currency)}{formatAmount(item.amount)}
+                        </span>
+                        {isForeign && (
+                          <span className="text-[10px] text-gray-400">
+                            {baseAmount === null ? '缺少汇率' : `≈ ${baseSymbol}${formatAmount(baseAmount)}`}
+                          </span>
+                        )}
+                      </span>
+                    </div>
+                    <div className="flex justify-between items-center mt-1">
+                      <span className="text-xs text-gray-400 truncate max-w-[150px]">
+                        {item.type === 'transfer'
+                          ? `${getAccountName(item.accountId, accounts)} → ${getAccountName(item.toAccountId || '', accounts)}${item.fee ? ` (手续费 ${formatAmount(item.fee)})` : ''}`
+                          : item.note || '无备注'}
+                        {item.tags?.map(tag => ` #${tag}`).join('')}
+                        {item.type !== 'transfer' && !accountFilter && accounts.length > 1 && ` · ${getAccountName(item.accountId, accounts)}`}
+                        {runningBalances?.has(item.id) && ` · 余额 ${formatAmount(runningBalances.get(item.id)!)}`}
+                      </span>
+                      {/* Photos can show amounts, so they stay hidden while amounts are */}
+                      {item.attachments && !hideAmounts && (
+                        <span className="flex items-center space-x-1 ml-auto mr-1">
+                          {item.attachments.slice(0, 3).map((id, i) => (
+                            <ReceiptThumb key={id} id={id} size={24} onClick={() => onViewReceipts?.(item.attachments!, i)} />
+                          ))}
+                          {item.attachments.length > 3 && <span className="text-[10px] text-gray-400">+{item.attachments.length - 3}</span>}
+                        </span>
+                      )}
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDelete(item.id);
+                        }}
+                        className="text-gray-300 hover:text-red-500 transition-colors p-1"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default TransactionList;
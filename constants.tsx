@@ -1,38 +1,195 @@
 import React from 'react';
-import { 
-  Utensils, 
-  Bus, 
-  ShoppingBag, 
-  Home, 
-  Gamepad2, 
-  Stethoscope, 
-  BookOpen, 
+import {
+  Utensils,
+  Bus,
+  ShoppingBag,
+  Home,
+  Gamepad2,
+  Stethoscope,
+  BookOpen,
   MoreHorizontal,
   Banknote,
   Coins,
   TrendingUp,
-  Wallet
+  Wallet,
+  PawPrint,
+  Baby,
+  Car,
+  Plane,
+  Coffee,
+  Gift,
+  Heart,
+  Shirt,
+  Smartphone,
+  Wifi,
+  Zap,
+  Dumbbell,
+  Music,
+  Film,
+  Briefcase,
+  GraduationCap,
+  Fuel,
+  Pill,
+  Scissors,
+  Beer,
+  ShoppingCart,
+  Receipt,
+  PiggyBank,
+  Landmark,
+  HandCoins,
+  TrainFront,
+  Bike,
+  Umbrella,
+  CreditCard,
+  MessageCircle,
+  ArrowLeftRight,
+  LucideIcon
 } from 'lucide-react';
-import { CategoryDef } from './types';
+import { Account, AccountKind, CategoryDef, TransactionType } from './types';
+
+// Icons users can pick for their categories, stored by key on CategoryDef.icon
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  utensils: Utensils,
+  coffee: Coffee,
+  beer: Beer,
+  bus: Bus,
+  train: TrainFront,
+  car: Car,
+  fuel: Fuel,
+  bike: Bike,
+  plane: Plane,
+  shopping: ShoppingBag,
+  cart: ShoppingCart,
+  shirt: Shirt,
+  home: Home,
+  zap: Zap,
+  wifi: Wifi,
+  phone: Smartphone,
+  game: Gamepad2,
+  music: Music,
+  film: Film,
+  dumbbell: Dumbbell,
+  medical: Stethoscope,
+  pill: Pill,
+  book: BookOpen,
+  graduation: GraduationCap,
+  pet: PawPrint,
+  baby: Baby,
+  heart: Heart,
+  gift: Gift,
+  scissors: Scissors,
+  umbrella: Umbrella,
+  receipt: Receipt,
+  banknote: Banknote,
+  coins: Coins,
+  trending: TrendingUp,
+  wallet: Wallet,
+  piggy: PiggyBank,
+  bank: Landmark,
+  handCoins: HandCoins,
+  briefcase: Briefcase,
+  transfer: ArrowLeftRight,
+  more: MoreHorizontal,
+};
+
+export const CATEGORY_COLORS = [
+  'bg-orange-100 text-orange-600',
+  'bg-blue-100 text-blue-600',
+  'bg-pink-100 text-pink-600',
+  'bg-yellow-100 text-yellow-600',
+  'bg-purple-100 text-purple-600',
+  'bg-green-100 text-green-600',
+  'bg-indigo-100 text-indigo-600',
+  'bg-gray-100 text-gray-600',
+  'bg-emerald-100 text-emerald-600',
+  'bg-amber-100 text-amber-600',
+  'bg-red-100 text-red-600',
+  'bg-cyan-100 text-cyan-600',
+  'bg-teal-100 text-teal-600',
+  'bg-rose-100 text-rose-600',
+];
+
+export const CategoryIcon: React.FC<{ icon: string; size?: number }> = ({ icon, size = 24 }) => {
+  const Icon = CATEGORY_ICONS[icon] || MoreHorizontal;
+  return <Icon size={size} />;
+};
 
 export const EXPENSE_CATEGORIES: CategoryDef[] = [
-  { id: 'food', label: '餐饮', icon: <Utensils size={24} />, color: 'bg-orange-100 text-orange-600' },
-  { id: 'transport', label: '交通', icon: <Bus size={24} />, color: 'bg-blue-100 text-blue-600' },
-  { id: 'shopping', label: '购物', icon: <ShoppingBag size={24} />, color: 'bg-pink-100 text-pink-600' },
-  { id: 'housing', label: '居住', icon: <Home size={24} />, color: 'bg-yellow-100 text-yellow-600' },
-  { id: 'entertainment', label: '娱乐', icon: <Gamepad2 size={24} />, color: 'bg-purple-100 text-purple-600' },
-  { id: 'medical', label: '医疗', icon: <Stethoscope size={24} />, color: 'bg-green-100 text-green-600' },
-  { id: 'study', label: '学习', icon: <BookOpen size={24} />, color: 'bg-indigo-100 text-indigo-600' },
-  { id: 'other', label: '其他', icon: <MoreHorizontal size={24} />, color: 'bg-gray-100 text-gray-600' },
+  { id: 'food', label: '餐饮', icon: 'utensils', color: 'bg-orange-100 text-orange-600', type: 'expense' },
+  { id: 'transport', label: '交通', icon: 'bus', color: 'bg-blue-100 text-blue-600', type: 'expense' },
+  { id: 'shopping', label: '购物', icon: 'shopping', color: 'bg-pink-100 text-pink-600', type: 'expense' },
+  { id: 'housing', label: '居住', icon: 'home', color: 'bg-yellow-100 text-yellow-600', type: 'expense' },
+  { id: 'entertainment', label: '娱乐', icon: 'game', color: 'bg-purple-100 text-purple-600', type: 'expense' },
+  { id: 'medical', label: '医疗', icon: 'medical', color: 'bg-green-100 text-green-600', type: 'expense' },
+  { id: 'study', label: '学习', icon: 'book', color: 'bg-indigo-100 text-indigo-600', type: 'expense' },
+  { id: 'other', label: '其他', icon: 'more', color: 'bg-gray-100 text-gray-600', type: 'expense' },
 ];
 
 export const INCOME_CATEGORIES: CategoryDef[] = [
-  { id: 'salary', label: '工资', icon: <Banknote size={24} />, color: 'bg-emerald-100 text-emerald-600' },
-  { id: 'bonus', label: '奖金', icon: <Coins size={24} />, color: 'bg-amber-100 text-amber-600' },
-  { id: 'investment', label: '理财', icon: <TrendingUp size={24} />, color: 'bg-red-100 text-red-600' },
-  { id: 'other_income', label: '其他', icon: <Wallet size={24} />, color: 'bg-cyan-100 text-cyan-600' },
+  { id: 'salary', label: '工资', icon: 'banknote', color: 'bg-emerald-100 text-emerald-600', type: 'income' },
+  { id: 'bonus', label: '奖金', icon: 'coins', color: 'bg-amber-100 text-amber-600', type: 'income' },
+  { id: 'investment', label: '理财', icon: 'trending', color: 'bg-red-100 text-red-600', type: 'income' },
+  { id: 'other_income', label: '其他', icon: 'wallet', color: 'bg-cyan-100 text-cyan-600', type: 'income' },
 ];
 
+export const TRANSACTION_TYPE_LABELS: Record<TransactionType, string> = {
+  expense: '支出',
+  income: '收入',
+  transfer: '转账',
+};
+
+// Built-in categories, used until the user customises the list
 export const CATEGORIES = [...EXPENSE_CATEGORIES, ...INCOME_CATEGORIES];
 
-export const getCategoryConfig = (id: string) => CATEGORIES.find(c => c.id === id) || EXPENSE_CATEGORIES[7];
\ No newline at end of file
+// Fixed category of transfer records, not part of the user's list
+export const TRANSFER_CATEGORY: CategoryDef = {
+  id: 'transfer', label: '转账', icon: 'transfer', color: 'bg-slate-100 text-slate-600', type: 'transfer',
+};
+
+// Resolve against the user's list first, then the built-ins, so records keep
+// rendering even if their category was archived or came from another device.
+export const getCategoryConfig = (id: string, categories: CategoryDef[] = CATEGORIES) =>
+  categories.find(c => c.id === id) ||
+  CATEGORIES.find(c => c.id === id) ||
+  (id === TRANSFER_CATEGORY.id ? TRANSFER_CATEGORY : EXPENSE_CATEGORIES[7]);
+
+// Categories offered when adding a record, in the user's order
+export const getActiveCategories = (categories: CategoryDef[], type: TransactionType) =>
+  categories.filter(c => c.type === type && !c.archived);
+
+// Pick the equivalent category when a record switches between expense and income:
+// same label first (e.g. 其他 -> 其他), otherwise the first active one of the new type.
+export const remapCategory = (id: string, type: TransactionType, categories: CategoryDef[]) => {
+  if (type === 'transfer') return TRANSFER_CATEGORY.id;
+  const current = getCategoryConfig(id, categories);
+  if (current.type === type && !current.archived) return current.id;
+  const active = getActiveCategories(categories, type);
+  const sameLabel = active.find(c => c.label === current.label);
+  return (sameLabel || active[0] || current).id;
+};
+
+export const ACCOUNT_KINDS: Record<AccountKind, { label: string; icon: LucideIcon; color: string }> = {
+  cash: { label: '现金', icon: Wallet, color: 'bg-amber-100 text-amber-600' },
+  bank: { label: '银行卡', icon: Landmark, color: 'bg-blue-100 text-blue-600' },
+  alipay: { label: '支付宝', icon: Smartphone, color: 'bg-sky-100 text-sky-600' },
+  wechat: { label: '微信', icon: MessageCircle, color: 'bg-green-100 text-green-600' },
+  credit: { label: '信用卡', icon: CreditCard, color: 'bg-rose-100 text-rose-600' },
+};
+
+export const AccountIcon: React.FC<{ kind: AccountKind; size?: number }> = ({ kind, size = 24 }) => {
+  const Icon = (ACCOUNT_KINDS[kind] || ACCOUNT_KINDS.cash).icon;
+  return <Icon size={size} />;
+};
+
+// Records created before accounts existed are assigned to this one
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+// Records created before multi-currency support are in this currency
+export const DEFAULT_CURRENCY = 'CNY';
+
+export const DEFAULT_ACCOUNTS: Account[] = [
+  { id: DEFAULT_ACCOUNT_ID, name: '现金', kind: 'cash', openingBalance: 0 },
+];
+
+export const getAccountName = (id: string, accounts: Account[]) =>
+  accounts.find(a => a.id === id)?.name || '未知账户';
@@ -0,0 +1,49 @@
+import { Account, Expense } from '../types';
+
+// Balance changes a record causes, as [accountId, delta] pairs.
+// A transfer takes amount + fee from the source and adds amount to the destination.
+export const getAccountDeltas = (e: Expense): [string, number][] => {
+  if (e.type === 'transfer') {
+    const deltas: [string, number][] = [[e.accountId, -(e.amount + (e.fee || 0))]];
+    if (e.toAccountId) deltas.push([e.toAccountId, e.amount]);
+    return deltas;
+  }
+  return [[e.accountId, e.type === 'income' ? e.amount : -e.amount]];
+};
+
+// Whether a record moves money in or out of the given account
+export const involvesAccount = (e: Expense, accountId: string) =>
+  e.accountId === accountId || e.toAccountId === accountId;
+
+// Current balance of every account: opening balance plus all balance changes
+export const computeAccountBalances = (accounts: Account[], expenses: Expense[]) => {
+  const balances = new Map<string, number>();
+  accounts.forEach(a => balances.set(a.id, a.openingBalance));
+
+  expenses.forEach(e => {
+    getAccountDeltas(e).forEach(([accountId, delta]) => {
+      if (!balances.has(accountId)) return;
+      balances.set(accountId, balances.get(accountId)! + delta);
+    });
+  });
+
+  return balances;
+};
+
+// Balance of one account right after each of its records, keyed by record id
+export const computeRunningBalances = (account: Account, expenses: Expense[]) => {
+  const running = new Map<string, number>();
+  let balance = account.openingBalance;
+
+  expenses
+    .filter(e => involvesAccount(e, account.id))
+    .sort((a, b) => a.date - b.date)
+    .forEach(e => {
+      getAccountDeltas(e).forEach(([accountId, delta]) => {
+        if (accountId === account.id) balance += delta;
+      });
+      running.set(e.id, balance);
+    });
+
+  return running;
+};
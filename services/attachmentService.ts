@@ -0,0 +1,173 @@
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { Expense } from '../types';
+import { runTransaction, ATTACHMENT_STORE } from './db';
+
+// Receipt photos are stored outside the records, which only keep their ids: as JPEG files
+// in the app's data directory on Android/iOS, as blobs in IndexedDB on the web. Each photo
+// is kept downscaled, plus a small thumbnail for list rows.
+
+export type AttachmentVariant = 'full' | 'thumb';
+
+// One photo as data URLs, the form embedded in backups
+export interface AttachmentData {
+  full: string;
+  thumb: string;
+}
+
+interface StoredAttachment {
+  id: string;
+  full: Blob;
+  thumb: Blob;
+}
+
+const RECEIPT_DIR = 'receipts';
+const FULL_SIZE = 1600; // longest side in pixels
+const THUMB_SIZE = 160;
+const isNative = () => Capacitor.isNativePlatform();
+const filePath = (id: string, variant: AttachmentVariant) =>
+  `${RECEIPT_DIR}/${id}${variant === 'thumb' ? '-thumb' : ''}.jpg`;
+
+// Thumbnails are shown on every list row, so keep the ones already read
+const thumbCache = new Map<string, string>();
+
+const blobToDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const dataUrlToBlob = (url: string) => fetch(url).then(response => response.blob());
+
+// Redraw the photo as a JPEG no larger than `maxSize` on its longest side
+const resizeImage = (source: Blob, maxSize: number, quality: number) => new Promise<Blob>((resolve, reject) => {
+  const url = URL.createObjectURL(source);
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.width * scale);
+    canvas.height = Math.round(image.height * scale);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('图片处理失败')), 'image/jpeg', quality);
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('无法读取图片'));
+  };
+  image.src = url;
+});
+
+const writeAttachment = async (attachment: StoredAttachment) => {
+  if (!isNative()) {
+    await runTransaction([ATTACHMENT_STORE], 'readwrite', tx => { tx.objectStore(ATTACHMENT_STORE).put(attachment); });
+    return;
+  }
+  for (const variant of ['full', 'thumb'] as AttachmentVariant[]) {
+    const dataUrl = await blobToDataUrl(attachment[variant]);
+    await Filesystem.writeFile({
+      path: filePath(attachment.id, variant),
+      data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+      directory: Directory.Data,
+      recursive: true,
+    });
+  }
+};
+
+// Store a picked or captured photo and return its id
+export const saveAttachment = async (file: Blob) => {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const [full, thumb] = await Promise.all([
+    resizeImage(file, FULL_SIZE, 0.8),
+    resizeImage(file, THUMB_SIZE, 0.7),
+  ]);
+  await writeAttachment({ id, full, thumb });
+  return id;
+};
+
+// The photo as a data URL for <img>. Rejects when it is missing, e.g. after restoring
+// a backup taken without photos.
+export const loadAttachment = async (id: string, variant: AttachmentVariant) => {
+  const cached = variant === 'thumb' ? thumbCache.get(id) : undefined;
+  if (cached) return cached;
+
+  let url: string;
+  if (isNative()) {
+    const { data } = await Filesystem.readFile({ path: filePath(id, variant), directory: Directory.Data });
+    url = `data:image/jpeg;base64,${data as string}`;
+  } else {
+    const stored: StoredAttachment | undefined = await runTransaction([ATTACHMENT_STORE], 'readonly',
+      tx => tx.objectStore(ATTACHMENT_STORE).get(id)).then(request => request.result);
+    if (!stored) throw new Error('票据照片不存在');
+    url = await blobToDataUrl(stored[variant]);
+  }
+  if (variant === 'thumb') thumbCache.set(id, url);
+  return url;
+};
+
+export const deleteAttachments = async (ids: string[]) => {
+  if (ids.length === 0) return;
+  ids.forEach(id => thumbCache.delete(id));
+  if (!isNative()) {
+    await runTransaction([ATTACHMENT_STORE], 'readwrite', tx => {
+      const store = tx.objectStore(ATTACHMENT_STORE);
+      ids.forEach(id => store.delete(id));
+    });
+    return;
+  }
+  for (const id of ids) {
+    for (const variant of ['full', 'thumb'] as AttachmentVariant[]) {
+      await Filesystem.deleteFile({ path: filePath(id, variant), directory: Directory.Data }).catch(() => undefined);
+    }
+  }
+};
+
+const listAttachmentIds = async (): Promise<string[]> => {
+  if (!isNative()) {
+    const request = await runTransaction([ATTACHMENT_STORE], 'readonly', tx => tx.objectStore(ATTACHMENT_STORE).getAllKeys());
+    return request.result as string[];
+  }
+  try {
+    const result = await Filesystem.readdir({ path: RECEIPT_DIR, directory: Directory.Data });
+    return result.files.map(f => f.name).filter(name => name.endsWith('.jpg') && !name.endsWith('-thumb.jpg'))
+      .map(name => name.slice(0, -'.jpg'.length));
+  } catch {
+    return []; // directory not created yet
+  }
+};
+
+export const collectAttachmentIds = (expenses: Expense[]) =>
+  new Set(expenses.flatMap(e => e.attachments || []));
+
+// Remove photos no record refers to any more: removed while editing, or left behind
+// by a record that was never saved or was replaced by an import or restore
+export const pruneAttachments = async (expenses: Expense[]) => {
+  const used = collectAttachmentIds(expenses);
+  const unused = (await listAttachmentIds()).filter(id => !used.has(id));
+  await deleteAttachments(unused);
+  return unused.length;
+};
+
+// Photos of the given records, for a backup snapshot. Missing photos are skipped.
+export const exportAttachments = async (expenses: Expense[]) => {
+  const result: Record<string, AttachmentData> = {};
+  for (const id of collectAttachmentIds(expenses)) {
+    try {
+      result[id] = { full: await loadAttachment(id, 'full'), thumb: await loadAttachment(id, 'thumb') };
+    } catch (e) {
+      console.error('Skipping missing receipt photo', id, e);
+    }
+  }
+  return result;
+};
+
+// Write back photos from a backup snapshot
+export const importAttachments = async (attachments: Record<string, AttachmentData>) => {
+  for (const [id, data] of Object.entries(attachments)) {
+    const [full, thumb] = await Promise.all([dataUrlToBlob(data.full), dataUrlToBlob(data.thumb)]);
+    thumbCache.delete(id);
+    await writeAttachment({ id, full, thumb });
+  }
+};
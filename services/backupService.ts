@@ -0,0 +1,209 @@
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
+import { Expense, Budget, CategoryDef, RecurringRule, Account, CurrencySettings, PeriodSettings } from '../types';
+import { DEFAULT_CURRENCY } from '../constants';
+import { runTransaction, BACKUP_STORE } from './db';
+import { RECORD_VERSION, CENTS_RECORD_VERSION, migrateRecords, budgetToCents, ruleToCents, accountToCents } from './storageService';
+import { diffRecords } from './importService';
+import { toDateKey } from './dateService';
+import { AttachmentData, exportAttachments } from './attachmentService';
+
+// Everything the app persists, as captured in one snapshot
+export interface BackupData {
+  expenses: Expense[];
+  budgets: Budget[];
+  categories: CategoryDef[];
+  recurringRules: RecurringRule[];
+  accounts: Account[];
+  currency?: CurrencySettings; // missing in snapshots from before multi-currency support
+  period?: PeriodSettings; // missing in snapshots from before configurable month and week starts
+  attachments?: Record<string, AttachmentData>; // receipt photos by id, only when chosen in the settings
+}
+
+export type BackupReason = 'auto' | 'manual' | 'restore';
+
+export interface BackupSummary {
+  id: string;
+  createdAt: number;
+  reason: BackupReason;
+  recordCount: number;
+}
+
+export interface Backup extends BackupSummary, BackupData {
+  recordVersion: number; // RECORD_VERSION of the app that wrote it
+}
+
+export const BACKUP_REASON_LABELS: Record<BackupReason, string> = {
+  auto: '自动备份',
+  manual: '手动备份',
+  restore: '恢复前备份',
+};
+
+// Snapshots live in the app's data directory on Android/iOS and in IndexedDB on the web
+const BACKUP_DIR = 'backups';
+const isNative = () => Capacitor.isNativePlatform();
+const fileName = (id: string) => `${BACKUP_DIR}/backup-${id}.json`;
+
+const toSummary = ({ id, createdAt, reason, recordCount }: Backup): BackupSummary =>
+  ({ id, createdAt, reason, recordCount });
+
+const readAll = async (): Promise<Backup[]> => {
+  if (!isNative()) {
+    const request = await runTransaction([BACKUP_STORE], 'readonly', tx => tx.objectStore(BACKUP_STORE).getAll());
+    return request.result;
+  }
+
+  let files: string[];
+  try {
+    const result = await Filesystem.readdir({ path: BACKUP_DIR, directory: Directory.Data });
+    files = result.files.map(f => f.name).filter(name => name.endsWith('.json'));
+  } catch {
+    return []; // directory not created yet
+  }
+  const backups = await Promise.all(files.map(async name => {
+    try {
+      const { data } = await Filesystem.readFile({ path: `${BACKUP_DIR}/${name}`, directory: Directory.Data, encoding: Encoding.UTF8 });
+      return JSON.parse(data as string) as Backup;
+    } catch (e) {
+      console.error('Skipping unreadable backup', name, e);
+      return null;
+    }
+  }));
+  return backups.filter((b): b is Backup => b !== null);
+};
+
+// Newest first
+export const listBackups = async (): Promise<BackupSummary[]> =>
+  (await readAll()).sort((a, b) => b.createdAt - a.createdAt).map(toSummary);
+
+// Read a snapshot and bring its records, and amounts in older snapshots, up to the current format
+export const readBackup = async (id: string): Promise<Backup> => {
+  let backup: Backup | undefined;
+  if (isNative()) {
+    const { data } = await Filesystem.readFile({ path: fileName(id), directory: Directory.Data, encoding: Encoding.UTF8 });
+    backup = JSON.parse(data as string);
+  } else {
+    backup = await runTransaction([BACKUP_STORE], 'readonly', tx => tx.objectStore(BACKUP_STORE).get(id))
+      .then(request => request.result);
+  }
+  if (!backup) throw new Error('备份不存在');
+  const version = backup.recordVersion ?? 0;
+  const decimal = version < CENTS_RECORD_VERSION;
+  return {
+    ...backup,
+    expenses: migrateRecords(backup.expenses, version),
+    budgets: decimal ? backup.budgets.map(budgetToCents) : backup.budgets,
+    recurringRules: (decimal ? backup.recurringRules.map(ruleToCents) : backup.recurringRules)
+      .map(rule => ({ ...rule, currency: rule.currency || DEFAULT_CURRENCY })),
+    accounts: decimal ? backup.accounts.map(accountToCents) : backup.accounts,
+  };
+};
+
+export const deleteBackup = async (id: string) => {
+  if (isNative()) {
+    await Filesystem.deleteFile({ path: fileName(id), directory: Directory.Data });
+  } else {
+    await runTransaction([BACKUP_STORE], 'readwrite', tx => { tx.objectStore(BACKUP_STORE).delete(id); });
+  }
+};
+
+// Drop the oldest snapshots beyond `keep`. Snapshots taken before a restore are counted
+// separately, so restoring never pushes out an automatic or manual snapshot. `sparedId`
+// is never dropped, e.g. the snapshot being restored.
+const pruneBackups = async (keep: number, sparedId?: string) => {
+  const backups = await listBackups();
+  const groups = [backups.filter(b => b.reason !== 'restore'), backups.filter(b => b.reason === 'restore')];
+  for (const group of groups) {
+    for (const backup of group.slice(Math.max(keep, 1))) {
+      if (backup.id !== sparedId) await deleteBackup(backup.id);
+    }
+  }
+};
+
+export const createBackup = async (
+  data: BackupData,
+  reason: BackupReason,
+  keep: number,
+  includeAttachments = false,
+  sparedId?: string
+) => {
+  const createdAt = Date.now();
+  const backup: Backup = {
+    id: String(createdAt),
+    createdAt,
+    reason,
+    recordCount: data.expenses.length,
+    recordVersion: RECORD_VERSION,
+    ...data,
+    ...(includeAttachments && { attachments: await exportAttachments(data.expenses) }),
+  };
+
+  if (isNative()) {
+    await Filesystem.writeFile({
+      path: fileName(backup.id),
+      data: JSON.stringify(backup),
+      directory: Directory.Data,
+      encoding: Encoding.UTF8,
+      recursive: true,
+    });
+  } else {
+    await runTransaction([BACKUP_STORE], 'readwrite', tx => { tx.objectStore(BACKUP_STORE).put(backup); });
+  }
+  await pruneBackups(keep, sparedId);
+  return toSummary(backup);
+};
+
+// Take the automatic snapshot unless an automatic or manual one was already taken today.
+// Resolves to the new snapshot, or null when none was needed.
+export const runDailyBackup = async (data: BackupData, keep: number, includeAttachments = false) => {
+  const today = toDateKey(new Date());
+  const latest = (await listBackups()).find(b => b.reason !== 'restore');
+  if (latest && toDateKey(new Date(latest.createdAt)) === today) return null;
+  return createBackup(data, 'auto', keep, includeAttachments);
+};
+
+export interface RestorePreview {
+  added: number; // records in the backup that are missing now
+  removed: number; // current records the backup doesn't have
+  changed: number; // same id, different content
+  unchanged: number;
+  // Other data that differs from the current state
+  settingsChanged: { label: string; count?: number }[];
+}
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// What restoring `backup` would do to the current data
+export const previewRestore = (backup: BackupData, current: BackupData): RestorePreview => {
+  const currentById = new Map(current.expenses.map(e => [e.id, e]));
+  const backupIds = new Set(backup.expenses.map(e => e.id));
+  const preview: RestorePreview = { added: 0, removed: 0, changed: 0, unchanged: 0, settingsChanged: [] };
+
+  backup.expenses.forEach(e => {
+    const mine = currentById.get(e.id);
+    if (!mine) preview.added++;
+    else if (diffRecords(mine, e).length > 0) preview.changed++;
+    else preview.unchanged++;
+  });
+  preview.removed = current.expenses.filter(e => !backupIds.has(e.id)).length;
+
+  const others: { label: string; key: keyof Omit<BackupData, 'expenses' | 'currency' | 'period' | 'attachments'> }[] = [
+    { label: '分类', key: 'categories' },
+    { label: '账户', key: 'accounts' },
+    { label: '预算', key: 'budgets' },
+    { label: '周期规则', key: 'recurringRules' },
+  ];
+  others.forEach(({ label, key }) => {
+    if (!sameJson(backup[key], current[key])) preview.settingsChanged.push({ label, count: backup[key].length });
+  });
+  if (backup.currency && !sameJson(backup.currency, current.currency)) {
+    preview.settingsChanged.push({ label: '汇率', count: backup.currency.rates.length });
+  }
+  if (backup.period && !sameJson(backup.period, current.period)) {
+    preview.settingsChanged.push({ label: '账期设置' });
+  }
+  if (backup.attachments) {
+    preview.settingsChanged.push({ label: '票据照片', count: Object.keys(backup.attachments).length });
+  }
+  return preview;
+};
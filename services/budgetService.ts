@@ -0,0 +1,73 @@
+import { Budget, BudgetScope, Expense } from '../types';
+import { getCategoryShares } from './splitService';
+import { getMonthOf } from './periodService';
+
+export interface BudgetStatus {
+  budget: Budget;
+  carried: number; // unused amount rolled over from previous months
+  limit: number; // budget.amount + carried
+  spent: number;
+  remaining: number; // negative when overspent
+  ratio: number; // spent / limit, used for progress bars
+}
+
+// YYYY-MM key for a given year / zero-based month
+export const getMonthKey = (year: number, month: number) =>
+  `${year}-${String(month + 1).padStart(2, '0')}`;
+
+const nextMonthKey = (key: string) => {
+  const [y, m] = key.split('-').map(Number);
+  return m === 12 ? getMonthKey(y + 1, 0) : getMonthKey(y, m);
+};
+
+// Sum expenses per booking month and per category (plus the 'total' bucket); split records
+// count towards each of their categories
+const buildMonthlySpending = (expenses: Expense[], monthStartDay: number) => {
+  const map = new Map<string, Map<BudgetScope, number>>();
+  expenses.forEach(e => {
+    if (e.type !== 'expense') return;
+    const { year, month } = getMonthOf(new Date(e.date), monthStartDay);
+    const key = getMonthKey(year, month);
+    if (!map.has(key)) map.set(key, new Map());
+    const monthMap = map.get(key)!;
+    getCategoryShares(e).forEach(line => monthMap.set(line.category, (monthMap.get(line.category) || 0) + line.amount));
+    monthMap.set('total', (monthMap.get('total') || 0) + e.amount);
+  });
+  return map;
+};
+
+export const computeBudgetStatuses = (
+  budgets: Budget[],
+  expenses: Expense[],
+  year: number,
+  month: number, // booking month, see getMonthOf
+  monthStartDay = 1
+): BudgetStatus[] => {
+  const targetKey = getMonthKey(year, month);
+  const spending = buildMonthlySpending(expenses, monthStartDay);
+  const spentIn = (key: string, scope: BudgetScope) => spending.get(key)?.get(scope) || 0;
+
+  return budgets
+    .filter(b => b.amount > 0 && b.startMonth <= targetKey)
+    .map(budget => {
+      // Walk forward from the first budget month, keeping only positive leftovers.
+      // Overspending is not carried, so one bad month doesn't eat the next one.
+      let carried = 0;
+      if (budget.carryOver) {
+        for (let key = budget.startMonth; key < targetKey; key = nextMonthKey(key)) {
+          carried = Math.max(0, budget.amount + carried - spentIn(key, budget.category));
+        }
+      }
+
+      const limit = budget.amount + carried;
+      const spent = spentIn(targetKey, budget.category);
+      return {
+        budget,
+        carried,
+        limit,
+        spent,
+        remaining: limit - spent,
+        ratio: limit > 0 ? spent / limit : 0,
+      };
+    });
+};
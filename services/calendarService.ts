@@ -0,0 +1,52 @@
+import { Expense } from '../types';
+import { groupByDateKey } from './dateService';
+import { Period } from './periodService';
+
+// Per-day totals for the calendar and the year heatmap. Amounts are in cents.
+
+export interface DayTotal {
+  income: number;
+  expense: number;
+  count: number; // records of any type, transfers included
+}
+
+// Number of shades besides the empty one
+export const HEAT_LEVELS = 4;
+
+export const computeDailyTotals = (expenses: Expense[]) => {
+  const totals = new Map<string, DayTotal>();
+  Object.entries(groupByDateKey(expenses)).forEach(([dateKey, items]) => {
+    const total: DayTotal = { income: 0, expense: 0, count: items.length };
+    items.forEach(e => {
+      if (e.type === 'income') total.income += e.amount;
+      else if (e.type === 'expense') total.expense += e.amount;
+    });
+    totals.set(dateKey, total);
+  });
+  return totals;
+};
+
+// Days of the period in rows of seven starting on `weekStartDay`, padded with nulls
+// before the first and after the last day
+export const getCalendarWeeks = (period: Period, weekStartDay: number) => {
+  const weeks: (Date | null)[][] = [];
+  let week: (Date | null)[] = new Array((period.start.getDay() - weekStartDay + 7) % 7).fill(null);
+  for (
+    let day = new Date(period.start);
+    day <= period.end;
+    day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)
+  ) {
+    week.push(day);
+    if (week.length === 7) {
+      weeks.push(week);
+      week = [];
+    }
+  }
+  if (week.length > 0) weeks.push([...week, ...new Array(7 - week.length).fill(null)]);
+  return weeks;
+};
+
+// Shade 0-HEAT_LEVELS of a day's amount against the busiest day. Any amount gets at least
+// the lightest shade so small days stay visible.
+export const getHeatLevel = (amount: number, max: number) =>
+  amount <= 0 || max <= 0 ? 0 : Math.max(1, Math.ceil((amount / max) * HEAT_LEVELS));
@@ -0,0 +1,130 @@
+import { bytesToBase64, base64ToBytes } from './fileService';
+
+// Passphrase-encrypted backup container, stored as JSON (see README, "加密备份格式"):
+//
+// {
+//   "format": "simple-bookkeeping-encrypted",
+//   "version": 1,
+//   "kdf": { "name": "PBKDF2", "hash": "SHA-256", "iterations": 600000, "salt": "<base64, 16 bytes>" },
+//   "cipher": { "name": "AES-GCM", "iv": "<base64, 12 bytes>" },
+//   "check": "<base64, 32 bytes>",
+//   "data": "<base64 ciphertext with the 16-byte GCM tag appended>"
+// }
+//
+// PBKDF2 yields 64 bytes: the first 32 are the AES-256 key, the last 32 are stored
+// as "check". A matching check with a failing GCM tag means the file was modified; the
+// header fields are bound to the ciphertext as GCM additional data, so editing them is
+// detected as tampering too. A mismatching check is either a wrong passphrase or an
+// edited salt, iteration count or check: nothing that would authenticate those fields
+// can be computed without the passphrase, so that case is reported as either.
+
+export const ENCRYPTED_FORMAT = 'simple-bookkeeping-encrypted';
+const VERSION = 1;
+const ITERATIONS = 600000;
+// Upper bound accepted on import, so an edited file can't stall the app
+const MAX_ITERATIONS = 10000000;
+
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_FORMAT;
+  version: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  check: string;
+  data: string;
+}
+
+// 'passphrase' also covers an edited key derivation header, see above
+export type DecryptFailure = 'passphrase' | 'tampered' | 'format';
+
+export class DecryptError extends Error {
+  constructor(public reason: DecryptFailure, message: string) {
+    super(message);
+    this.name = 'DecryptError';
+  }
+}
+
+export const isEncryptedBackup = (value: unknown): value is EncryptedBackup =>
+  typeof value === 'object' && value !== null && (value as { format?: unknown }).format === ENCRYPTED_FORMAT;
+
+const deriveKeys = async (passphrase: string, salt: BufferSource, iterations: number) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+  const bits = new Uint8Array(await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    512
+  ));
+  const key = await crypto.subtle.importKey('raw', bits.slice(0, 32), 'AES-GCM', false, ['encrypt', 'decrypt']);
+  return { key, check: bits.slice(32) };
+};
+
+// Everything except "check" and "data", in a fixed field order
+const headerBytes = (backup: Pick<EncryptedBackup, 'format' | 'version' | 'kdf' | 'cipher'>) =>
+  new TextEncoder().encode(JSON.stringify([
+    backup.format, backup.version,
+    backup.kdf.name, backup.kdf.hash, backup.kdf.iterations, backup.kdf.salt,
+    backup.cipher.name, backup.cipher.iv,
+  ]));
+
+export const encryptBackup = async (plaintext: string, passphrase: string): Promise<EncryptedBackup> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const { key, check } = await deriveKeys(passphrase, salt, ITERATIONS);
+
+  const header = {
+    format: ENCRYPTED_FORMAT,
+    version: VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: ITERATIONS, salt: bytesToBase64(salt) },
+    cipher: { name: 'AES-GCM', iv: bytesToBase64(iv) },
+  } as const;
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: headerBytes(header) },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+
+  return { ...header, check: bytesToBase64(check), data: bytesToBase64(new Uint8Array(ciphertext)) };
+};
+
+// Constant-time comparison, so the check doesn't leak how many leading bytes matched
+export const bytesEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+export const decryptBackup = async (backup: EncryptedBackup, passphrase: string) => {
+  if (backup.version !== VERSION || backup.kdf?.name !== 'PBKDF2' || backup.kdf.hash !== 'SHA-256' || backup.cipher?.name !== 'AES-GCM') {
+    throw new DecryptError('format', '不支持的加密备份版本');
+  }
+
+  let fields;
+  try {
+    fields = {
+      salt: base64ToBytes(backup.kdf.salt),
+      iv: base64ToBytes(backup.cipher.iv),
+      check: base64ToBytes(backup.check),
+      data: base64ToBytes(backup.data),
+    };
+  } catch {
+    throw new DecryptError('tampered', '文件已损坏或被篡改');
+  }
+  const { salt, iv, check, data } = fields;
+  if (!Number.isInteger(backup.kdf.iterations) || backup.kdf.iterations < 1 || backup.kdf.iterations > MAX_ITERATIONS || iv.length !== 12) {
+    throw new DecryptError('tampered', '文件已损坏或被篡改');
+  }
+
+  const keys = await deriveKeys(passphrase, salt, backup.kdf.iterations);
+  if (!bytesEqual(keys.check, check)) throw new DecryptError('passphrase', '密码错误或文件已被篡改');
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv, additionalData: headerBytes(backup) },
+      keys.key,
+      data
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new DecryptError('tampered', '文件已损坏或被篡改');
+  }
+};
@@ -0,0 +1,357 @@
+import { Expense, TransactionType, CategoryDef } from '../types';
+import { getActiveCategories } from '../constants';
+import { toDateKey } from './dateService';
+import { toCents } from './moneyService';
+
+export type CsvPreset = 'alipay' | 'wechat' | 'bank';
+export type CsvEncoding = 'utf-8' | 'gbk';
+export type DateFormat = 'ymd' | 'dmy' | 'mdy';
+
+// Column indexes of the source file, -1 = not present
+export interface CsvMapping {
+  date: number;
+  amount: number; // signed amount, or the expense amount when `income` is set
+  income: number; // separate income/credit column used by some bank statements
+  direction: number; // 收/支 text column
+  status: number; // closed / failed transactions are skipped
+  merchant: number;
+  note: number;
+  category: number; // source category text, used as a hint for guessing
+}
+
+export interface CsvOptions {
+  headerRow: number;
+  mapping: CsvMapping;
+  dateFormat: DateFormat;
+  decimalComma: boolean; // 1.234,56
+  invertSign: boolean; // credit card statements list spending as positive
+}
+
+export interface CsvRow {
+  line: number; // 1-based line in the file
+  date?: number;
+  amount?: number;
+  type?: TransactionType;
+  merchant: string;
+  note: string;
+  categoryHint: string;
+  error?: string; // row could not be parsed
+  ignored?: string; // row parsed but should not be imported (closed, neutral)
+}
+
+export const PRESET_LABELS: Record<CsvPreset, string> = {
+  alipay: '支付宝账单',
+  wechat: '微信支付账单',
+  bank: '银行流水 / 通用',
+};
+
+export const MAPPING_FIELDS: { key: keyof CsvMapping; label: string; required?: boolean }[] = [
+  { key: 'date', label: '日期', required: true },
+  { key: 'amount', label: '金额 / 支出', required: true },
+  { key: 'income', label: '收入 (单独列)' },
+  { key: 'direction', label: '收/支' },
+  { key: 'status', label: '交易状态' },
+  { key: 'merchant', label: '交易对方' },
+  { key: 'note', label: '备注 / 商品' },
+  { key: 'category', label: '原分类' },
+];
+
+// Header names per preset, matched by substring in order of preference
+const PRESET_COLUMNS: Record<CsvPreset, Partial<Record<keyof CsvMapping, string[]>>> = {
+  alipay: {
+    date: ['交易时间', '交易创建时间', '付款时间'],
+    amount: ['金额'],
+    direction: ['收/支'],
+    status: ['交易状态'],
+    merchant: ['交易对方'],
+    note: ['商品说明', '商品名称'],
+    category: ['交易分类'],
+  },
+  wechat: {
+    date: ['交易时间'],
+    amount: ['金额'],
+    direction: ['收/支'],
+    status: ['当前状态'],
+    merchant: ['交易对方'],
+    note: ['商品'],
+    category: ['交易类型'],
+  },
+  bank: {
+    date: ['交易日期', '记账日期', '交易时间', '日期', 'date'],
+    amount: ['支出金额', '借方金额', '支取', '交易金额', '发生额', '金额', 'amount'],
+    income: ['收入金额', '贷方金额', '存入'],
+    direction: ['借贷', '收/支', '收支'],
+    merchant: ['对方户名', '对方名称', '交易对方', 'payee'],
+    note: ['摘要', '用途', '交易说明', '备注', 'description', 'memo'],
+  },
+};
+
+// Decode with the chosen encoding; 'auto' tries UTF-8 and falls back to GBK,
+// which is what Alipay and most Chinese banks export.
+export const decodeCsv = (buffer: ArrayBuffer, encoding: CsvEncoding | 'auto'): { text: string; encoding: CsvEncoding } => {
+  if (encoding === 'auto') {
+    try {
+      return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, ''), encoding: 'utf-8' };
+    } catch {
+      return { text: new TextDecoder('gbk').decode(buffer), encoding: 'gbk' };
+    }
+  }
+  return { text: new TextDecoder(encoding).decode(buffer).replace(/^\uFEFF/, ''), encoding };
+};
+
+// RFC 4180 parser: quoted fields, escaped quotes, CRLF/LF and tab/semicolon delimiters
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const delimiter = [',', '\t', ';'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.map(r => r.map(cell => cell.trim()));
+};
+
+const findColumn = (header: string[], candidates: string[] = []) => {
+  for (const candidate of candidates) {
+    const index = header.findIndex(h => h.toLowerCase().includes(candidate.toLowerCase()));
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+export const buildMapping = (header: string[], preset: CsvPreset): CsvMapping => {
+  const columns = PRESET_COLUMNS[preset];
+  const mapping: CsvMapping = {
+    date: findColumn(header, columns.date),
+    amount: findColumn(header, columns.amount),
+    income: findColumn(header, columns.income),
+    direction: findColumn(header, columns.direction),
+    status: findColumn(header, columns.status),
+    merchant: findColumn(header, columns.merchant),
+    note: findColumn(header, columns.note),
+    category: findColumn(header, columns.category),
+  };
+  // A lone income column is really the signed amount column
+  if (mapping.income === mapping.amount) mapping.income = -1;
+  return mapping;
+};
+
+// Bill exports start with a preamble; the header is the first row naming both a date and an amount
+const findHeaderRow = (rows: string[][], preset: CsvPreset) => {
+  const limit = Math.min(rows.length, 40);
+  for (let i = 0; i < limit; i++) {
+    const mapping = buildMapping(rows[i], preset);
+    if (mapping.date !== -1 && mapping.amount !== -1) return i;
+  }
+  return 0;
+};
+
+export const detectPreset = (rows: string[][]): CsvPreset => {
+  const preamble = rows.slice(0, 40).map(r => r.join(' ')).join('\n');
+  if (/支付宝/.test(preamble) || /商品说明/.test(preamble)) return 'alipay';
+  if (/微信/.test(preamble) || /当前状态/.test(preamble)) return 'wechat';
+  return 'bank';
+};
+
+const DATE_PATTERN = /^(\d{1,4})\D(\d{1,2})\D(\d{1,4})(?:\D+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/;
+const COMPACT_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})(?:\D*(\d{2}):?(\d{2})(?::?(\d{2}))?)?/;
+
+export const detectDateFormat = (samples: string[]): DateFormat => {
+  let dayFirst = false;
+  let monthFirst = false;
+  for (const sample of samples) {
+    const m = sample.match(DATE_PATTERN);
+    if (!m) continue;
+    if (m[1].length === 4) return 'ymd';
+    if (Number(m[1]) > 12) dayFirst = true;
+    if (Number(m[2]) > 12) monthFirst = true;
+  }
+  if (monthFirst && !dayFirst) return 'mdy';
+  return 'dmy';
+};
+
+export const parseDate = (raw: string, format: DateFormat): number | undefined => {
+  const value = raw.trim();
+  const compact = value.match(COMPACT_DATE_PATTERN);
+  const m = compact && !DATE_PATTERN.test(value) ? compact : value.match(DATE_PATTERN);
+  if (!m) return undefined;
+
+  const [a, b, c] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  let year = a, month = b, day = c;
+  if (m !== compact && format === 'dmy') [year, month, day] = [c, b, a];
+  if (m !== compact && format === 'mdy') [year, month, day] = [c, a, b];
+  if (year < 100) year += 2000;
+
+  // Without a time, use noon so the day never shifts across time zones
+  const hasTime = m[4] !== undefined;
+  const date = new Date(year, month - 1, day, hasTime ? Number(m[4]) : 12, hasTime ? Number(m[5]) : 0, Number(m[6] || 0));
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+  return date.getTime();
+};
+
+// Decimal comma when a sample's last separator is a comma followed by 1-2 digits ("1.200,00")
+export const detectDecimalComma = (samples: string[]) =>
+  samples.some(s => /,\d{1,2}\s*\)?-?$/.test(s) && s.lastIndexOf(',') > s.lastIndexOf('.'));
+
+// Signed amount from bank-style text: "¥1,234.50", "-12.00", "(12.00)", "12.00-"
+export const parseAmount = (raw: string, decimalComma: boolean): number | undefined => {
+  const value = raw.trim();
+  if (!value) return undefined;
+  const negative = /^-|^\(.*\)$|-$/.test(value) || /^[^\d]*-/.test(value);
+  let digits = value.replace(/[^\d.,]/g, '');
+  digits = decimalComma ? digits.replace(/\./g, '').replace(',', '.') : digits.replace(/,/g, '');
+  const amount = parseFloat(digits);
+  if (isNaN(amount)) return undefined;
+  return negative ? -amount : amount;
+};
+
+export const buildDefaultOptions = (rows: string[][], preset: CsvPreset): CsvOptions => {
+  const headerRow = findHeaderRow(rows, preset);
+  const mapping = buildMapping(rows[headerRow] || [], preset);
+  return applyDetection(rows, { headerRow, mapping, dateFormat: 'ymd', decimalComma: false, invertSign: false });
+};
+
+// Re-run date/amount format detection for the current mapping
+export const applyDetection = (rows: string[][], options: CsvOptions): CsvOptions => {
+  const body = rows.slice(options.headerRow + 1, options.headerRow + 51);
+  const column = (index: number) => index === -1 ? [] : body.map(r => r[index] || '').filter(Boolean);
+  return {
+    ...options,
+    dateFormat: detectDateFormat(column(options.mapping.date)),
+    decimalComma: detectDecimalComma([...column(options.mapping.amount), ...column(options.mapping.income)]),
+  };
+};
+
+export const parseRows = (rows: string[][], options: CsvOptions): CsvRow[] => {
+  const { mapping } = options;
+  // Exports (ours included) put an apostrophe before text that would run as a formula
+  const cell = (row: string[], index: number) => index === -1 ? '' : (row[index] || '').trim().replace(/^'(?=[=+\-@])/, '');
+
+  return rows.slice(options.headerRow + 1)
+    .map((row, i) => ({ row, line: options.headerRow + i + 2 }))
+    // Skip blank lines and footers such as "共 23 笔记录" that have no amount column
+    .filter(({ row }) => row.some(Boolean) && row.length > Math.max(mapping.date, mapping.amount))
+    .map(({ row, line }): CsvRow => {
+      const result: CsvRow = {
+        line,
+        merchant: cell(row, mapping.merchant),
+        note: cell(row, mapping.note),
+        categoryHint: cell(row, mapping.category),
+      };
+
+      result.date = parseDate(cell(row, mapping.date), options.dateFormat);
+      if (result.date === undefined) return { ...result, error: '无法识别的日期' };
+
+      const status = cell(row, mapping.status);
+      if (/关闭|失败|撤销|已全额退款/.test(status)) return { ...result, ignored: status };
+
+      let amount = parseAmount(cell(row, mapping.amount), options.decimalComma);
+      const income = mapping.income === -1 ? undefined : parseAmount(cell(row, mapping.income), options.decimalComma);
+      let type: TransactionType | undefined;
+
+      if (income) {
+        // Separate credit column: whichever side has a value decides the type
+        type = 'income';
+        amount = income;
+      } else if (mapping.direction !== -1 && cell(row, mapping.direction)) {
+        const direction = cell(row, mapping.direction);
+        if (/不计|^\/$/.test(direction)) return { ...result, amount: amount && Math.abs(amount), ignored: direction };
+        if (/收|贷/.test(direction)) type = 'income';
+        else if (/支|借/.test(direction)) type = 'expense';
+      }
+
+      if (amount === undefined || amount === 0) return { ...result, error: '无法识别的金额' };
+      if (!type) {
+        const signed = options.invertSign ? -amount : amount;
+        type = signed < 0 || mapping.income !== -1 ? 'expense' : 'income';
+      }
+      return { ...result, amount: Math.abs(amount), type };
+    });
+};
+
+// Merchant / description keywords for the built-in categories
+const CATEGORY_KEYWORDS: Record<string, RegExp> = {
+  food: /餐|饭|食|外卖|美团|饿了么|咖啡|星巴克|瑞幸|麦当劳|肯德基|奶茶|喜茶|面包|烘焙|餐饮/,
+  transport: /滴滴|出行|地铁|公交|打车|加油|石化|石油|高铁|12306|铁路|航空|机票|停车|ETC|交通/i,
+  shopping: /淘宝|天猫|京东|拼多多|商城|超市|便利店|服饰|购物|百货|日用/,
+  housing: /房租|租金|物业|水费|电费|燃气|宽带|住房|缴费|生活服务/,
+  entertainment: /电影|影城|游戏|视频|音乐|会员|KTV|Steam|爱奇艺|腾讯视频|优酷|娱乐|休闲/i,
+  medical: /医院|药|诊所|体检|医疗|健康/,
+  study: /书|课程|教育|培训|学费|文具/,
+  salary: /工资|薪|代发/,
+  bonus: /奖金|红包|年终/,
+  investment: /理财|利息|基金|收益|分红|余额宝|零钱通/,
+};
+
+// Guess a category from the row's text: user category labels first (custom ones like 宠物),
+// then built-in keywords, then the "其他" category of that type.
+export const guessCategory = (row: CsvRow, type: TransactionType, categories: CategoryDef[]) => {
+  const active = getActiveCategories(categories, type);
+  const text = `${row.categoryHint} ${row.merchant} ${row.note}`;
+
+  const byLabel = active.find(c => c.label !== '其他' && text.includes(c.label));
+  if (byLabel) return byLabel.id;
+
+  const byKeyword = active.find(c => CATEGORY_KEYWORDS[c.id]?.test(text));
+  if (byKeyword) return byKeyword.id;
+
+  return (active.find(c => c.label === '其他') || active[active.length - 1])?.id || 'other';
+};
+
+const duplicateKey = (type: TransactionType, date: number, cents: number, currency: string) =>
+  `${type}|${toDateKey(new Date(date))}|${cents}|${currency}`;
+
+// Rows matching an existing record on type, day, amount and currency; the file's rows are
+// all in `currency`. Each existing record can only account for one row, so two identical
+// coffees in the file and one in the app flag just one of them.
+export const findDuplicateLines = (rows: CsvRow[], expenses: Expense[], currency: string) => {
+  const available = new Map<string, number>();
+  expenses.forEach(e => {
+    const key = duplicateKey(e.type, e.date, e.amount, e.currency);
+    available.set(key, (available.get(key) || 0) + 1);
+  });
+
+  const duplicates = new Set<number>();
+  rows.forEach(row => {
+    if (row.error || row.ignored || !row.type || row.date === undefined || row.amount === undefined) return;
+    const key = duplicateKey(row.type, row.date, toCents(row.amount), currency);
+    const count = available.get(key) || 0;
+    if (count > 0) {
+      duplicates.add(row.line);
+      available.set(key, count - 1);
+    }
+  });
+  return duplicates;
+};
@@ -0,0 +1,89 @@
+import { Expense, ExchangeRate, CurrencySettings } from '../types';
+import { toDateKey } from './dateService';
+import { scaleMoney } from './moneyService';
+import { fitSplits } from './splitService';
+
+export const CURRENCIES: { code: string; symbol: string; label: string }[] = [
+  { code: 'CNY', symbol: '¥', label: '人民币' },
+  { code: 'USD', symbol: '$', label: '美元' },
+  { code: 'EUR', symbol: '€', label: '欧元' },
+  { code: 'JPY', symbol: 'JP¥', label: '日元' },
+  { code: 'HKD', symbol: 'HK$', label: '港币' },
+  { code: 'GBP', symbol: '£', label: '英镑' },
+  { code: 'KRW', symbol: '₩', label: '韩元' },
+  { code: 'TWD', symbol: 'NT$', label: '新台币' },
+  { code: 'SGD', symbol: 'S$', label: '新加坡元' },
+  { code: 'THB', symbol: '฿', label: '泰铢' },
+  { code: 'AUD', symbol: 'A$', label: '澳元' },
+  { code: 'CAD', symbol: 'C$', label: '加元' },
+];
+
+export const getCurrencySymbol = (code: string) => CURRENCIES.find(c => c.code === code)?.symbol || code;
+
+// Rates linking exactly `from` and `to` on `dateKey`: the latest entry on or before that day,
+// or the earliest entry for older records. Entries in the opposite direction are used inverted.
+const findDirectRate = (rates: ExchangeRate[], from: string, to: string, dateKey: string): number | null => {
+  const candidates = rates
+    .map(r =>
+      r.currency === from && r.base === to ? { date: r.date, rate: r.rate }
+      : r.currency === to && r.base === from ? { date: r.date, rate: 1 / r.rate }
+      : null)
+    .filter((c): c is { date: string; rate: number } => c !== null)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (candidates.length === 0) return null;
+  const applicable = candidates.filter(c => c.date <= dateKey);
+  return (applicable.length > 0 ? applicable[applicable.length - 1] : candidates[0]).rate;
+};
+
+// How many units of `to` one unit of `from` was worth on `dateKey`. Falls back to a cross
+// rate through one other currency, so rates entered against an earlier base currency keep
+// working after the base changes. Null when no rate links the two currencies.
+export const findRate = (rates: ExchangeRate[], from: string, to: string, dateKey: string): number | null => {
+  if (from === to) return 1;
+  const direct = findDirectRate(rates, from, to, dateKey);
+  if (direct !== null) return direct;
+
+  const via = new Set(rates.flatMap(r => [r.currency, r.base]));
+  for (const currency of via) {
+    if (currency === from || currency === to) continue;
+    const first = findDirectRate(rates, from, currency, dateKey);
+    const second = first === null ? null : findDirectRate(rates, currency, to, dateKey);
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+};
+
+// Amount of one record in the base currency, or null when no rate is available
+export const toBaseAmount = (expense: Expense, settings: CurrencySettings, value = expense.amount): number | null => {
+  if (expense.currency === settings.baseCurrency) return value;
+  const rate = findRate(settings.rates, expense.currency, settings.baseCurrency, toDateKey(new Date(expense.date)));
+  return rate === null ? null : scaleMoney(value, rate);
+};
+
+// Copies of the records with amount and fee in the base currency, for totals, budgets and charts.
+// Records without a usable rate are left out and their currencies reported.
+export const convertToBase = (expenses: Expense[], settings: CurrencySettings) => {
+  const converted: Expense[] = [];
+  const missing = new Set<string>();
+
+  expenses.forEach(e => {
+    if (e.currency === settings.baseCurrency) {
+      converted.push(e);
+      return;
+    }
+    const amount = toBaseAmount(e, settings);
+    if (amount === null) {
+      missing.add(e.currency);
+      return;
+    }
+    converted.push({
+      ...e,
+      amount,
+      fee: e.fee !== undefined ? toBaseAmount(e, settings, e.fee)! : undefined,
+      splits: e.splits && fitSplits(e.splits.map(line => ({ ...line, amount: toBaseAmount(e, settings, line.amount)! })), amount),
+      currency: settings.baseCurrency,
+    });
+  });
+
+  return { converted, missing };
+};
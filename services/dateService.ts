@@ -0,0 +1,32 @@
+// Local-time date helpers shared by the list, recurring rules and statistics
+
+// YYYY-MM-DD in local time
+export const toDateKey = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// Midnight local time of a YYYY-MM-DD key
+export const parseDateKey = (key: string) => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const endOfDay = (date: Date) => {
+  const d = new Date(date);
+  d.setHours(23, 59, 59, 999);
+  return d;
+};
+
+export const getDaysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+// Group records by their YYYY-MM-DD day, keeping the input order within and across days
+export const groupByDateKey = <T extends { date: number }>(items: T[]) =>
+  items.reduce((groups, item) => {
+    const dateKey = toDateKey(new Date(item.date));
+    if (!groups[dateKey]) groups[dateKey] = [];
+    groups[dateKey].push(item);
+    return groups;
+  }, {} as Record<string, T[]>);
@@ -0,0 +1,77 @@
+// Thin promise wrapper around the app's IndexedDB database.
+//
+// Two version numbers are tracked separately:
+// - DB_VERSION is the IndexedDB schema (object stores and indexes). Each entry of
+//   SCHEMA_UPGRADES brings the database from version i to i + 1.
+// - The record version (meta key 'recordVersion') says which entries of
+//   RECORD_MIGRATIONS have already been applied to the stored records.
+
+const DB_NAME = 'simple_bookkeeping';
+
+export const EXPENSE_STORE = 'expenses';
+export const META_STORE = 'meta';
+export const BACKUP_STORE = 'backups';
+export const ATTACHMENT_STORE = 'attachments';
+
+const SCHEMA_UPGRADES: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // 0 -> 1: records keyed by id with the indexes used for filtering, plus a key-value store
+  (db) => {
+    const expenses = db.createObjectStore(EXPENSE_STORE, { keyPath: 'id' });
+    expenses.createIndex('date', 'date');
+    expenses.createIndex('category', 'category');
+    expenses.createIndex('type', 'type');
+    db.createObjectStore(META_STORE);
+  },
+  // 1 -> 2: automatic backup snapshots on the web
+  (db) => {
+    db.createObjectStore(BACKUP_STORE, { keyPath: 'id' });
+  },
+  // 2 -> 3: receipt photos on the web
+  (db) => {
+    db.createObjectStore(ATTACHMENT_STORE, { keyPath: 'id' });
+  },
+];
+
+export const DB_VERSION = SCHEMA_UPGRADES.length;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction!;
+        for (let v = event.oldVersion; v < DB_VERSION; v++) SCHEMA_UPGRADES[v](request.result, tx);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('数据库被其他页面占用，请关闭其他标签页后重试'));
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Run `work` inside one transaction and resolve once it has committed
+export const runTransaction = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => T
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    let result: T;
+    tx.oncomplete = () => resolve(result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+    try {
+      result = work(tx);
+    } catch (e) {
+      tx.abort();
+      reject(e);
+    }
+  });
+};
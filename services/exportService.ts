@@ -0,0 +1,220 @@
+import { Expense, CategoryDef, Account } from '../types';
+import { getCategoryConfig, getAccountName, TRANSACTION_TYPE_LABELS } from '../constants';
+import { toDateKey } from './dateService';
+import { fromCents } from './moneyService';
+import { REIMBURSEMENT_STATUS_LABELS } from './reimbursementService';
+import { describeSplits } from './splitService';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel',
+  json: 'JSON 备份',
+};
+
+type Cell = string | number;
+
+const HEADER = ['日期', '时间', '类型', '分类', '金额', '币种', '账户', '转入账户', '手续费', '标签', '报销', '备注'];
+
+// One row per record, oldest first, with labels instead of ids so the sheet reads on its own
+export const buildExportRows = (expenses: Expense[], categories: CategoryDef[], accounts: Account[]): Cell[][] => {
+  const rows = [...expenses]
+    .sort((a, b) => a.date - b.date)
+    .map(e => {
+      const date = new Date(e.date);
+      return [
+        toDateKey(date),
+        `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`,
+        TRANSACTION_TYPE_LABELS[e.type],
+        e.splits ? describeSplits(e.splits, categories) : getCategoryConfig(e.category, categories).label,
+        fromCents(e.amount),
+        e.currency,
+        getAccountName(e.accountId, accounts),
+        e.toAccountId ? getAccountName(e.toAccountId, accounts) : '',
+        e.fee ? fromCents(e.fee) : '',
+        (e.tags || []).join(' '),
+        e.reimbursement ? REIMBURSEMENT_STATUS_LABELS[e.reimbursement] : '',
+        e.note,
+      ];
+    });
+  return [HEADER, ...rows];
+};
+
+// JSON backups keep decimal amounts, so files from every app version import the same way
+export const toJsonRecords = (expenses: Expense[]) =>
+  expenses.map(e => ({
+    ...e,
+    amount: fromCents(e.amount),
+    ...(e.fee !== undefined && { fee: fromCents(e.fee) }),
+    ...(e.splits && { splits: e.splits.map(line => ({ ...line, amount: fromCents(line.amount) })) }),
+  }));
+
+// Text that spreadsheets would run as a formula, e.g. an imported note starting with "="
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const escapeCsvCell = (cell: Cell) => {
+  // Amounts stay plain numbers; text gets a leading apostrophe so it opens as text
+  const text = typeof cell === 'number' ? cell.toFixed(2) : FORMULA_START.test(cell) ? `'${cell}` : cell;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// UTF-8 with a byte order mark, otherwise Excel opens Chinese text as mojibake
+export const toCsv = (rows: Cell[][]) =>
+  '\uFEFF' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+
+// --- Minimal XLSX writer: one sheet of inline strings and numbers in an uncompressed zip ---
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+const buildSheetXml = (rows: Cell[][]) => {
+  const body = rows.map((row, r) => {
+    const cells = row.map((cell, c) => {
+      const ref = `${columnName(c)}${r + 1}`;
+      if (typeof cell === 'number') return `<c r="${ref}"${r > 0 ? ' s="1"' : ''}><v>${cell}</v></c>`;
+      if (cell === '') return '';
+      return `<c r="${ref}" t="inlineStr"${r === 0 ? ' s="2"' : ''}><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    '<cols><col min="1" max="1" width="12" customWidth="1"/><col min="12" max="12" width="30" customWidth="1"/></cols>' +
+    `<sheetData>${body}</sheetData></worksheet>`;
+};
+
+// Style 1: amounts with two decimals, style 2: bold header
+const STYLES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="3">' +
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+  '</cellXfs></styleSheet>';
+
+const CONTENT_TYPES_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+  '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+  '<Default Extension="xml" ContentType="application/xml"/>' +
+  '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+  '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+  '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+  '</Types>';
+
+const ROOT_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+  '</Relationships>';
+
+const WORKBOOK_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+  '<sheets><sheet name="账目" sheetId="1" r:id="rId1"/></sheets></workbook>';
+
+const WORKBOOK_RELS_XML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+  '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+  '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+  '</Relationships>';
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// 1980-01-01, the earliest valid MS-DOS date; the entries carry no meaningful timestamp
+const DOS_DATE = (1 << 5) | 1;
+
+// Zip archive with every entry stored (no compression), which every spreadsheet app accepts
+const buildZip = (files: { name: string; content: string }[]) => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(12, DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true); // version made by
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(14, DOS_DATE, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  });
+
+  const centralSize = central.reduce((acc, c) => acc + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const result = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let position = 0;
+  parts.forEach(p => {
+    result.set(p, position);
+    position += p.length;
+  });
+  return result;
+};
+
+export const toXlsx = (rows: Cell[][]) => buildZip([
+  { name: '[Content_Types].xml', content: CONTENT_TYPES_XML },
+  { name: '_rels/.rels', content: ROOT_RELS_XML },
+  { name: 'xl/workbook.xml', content: WORKBOOK_XML },
+  { name: 'xl/_rels/workbook.xml.rels', content: WORKBOOK_RELS_XML },
+  { name: 'xl/styles.xml', content: STYLES_XML },
+  { name: 'xl/worksheets/sheet1.xml', content: buildSheetXml(rows) },
+]);
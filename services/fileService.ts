@@ -0,0 +1,54 @@
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
+import { Share } from '@capacitor/share';
+
+// Base64 without spreading the whole array into one call (large exports overflow the stack)
+export const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (text: string) => {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+// Hand a generated file to the user: the share sheet on Android/iOS, a download on the web.
+// Text is written as UTF-8, binary content as base64.
+export const saveFile = async (
+  fileName: string,
+  data: string | Uint8Array,
+  mimeType: string,
+  shareTitle: string
+) => {
+  if (Capacitor.isNativePlatform()) {
+    const result = await Filesystem.writeFile({
+      path: fileName,
+      data: typeof data === 'string' ? data : bytesToBase64(data),
+      directory: Directory.Cache,
+      ...(typeof data === 'string' ? { encoding: Encoding.UTF8 } : {}),
+    });
+
+    await Share.share({
+      title: shareTitle,
+      url: result.uri,
+      dialogTitle: shareTitle,
+    });
+  } else {
+    const blob = new Blob([data as BlobPart], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.download = fileName;
+    link.href = url;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+};
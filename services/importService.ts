@@ -0,0 +1,179 @@
+import { Expense, TransactionType, ReimbursementStatus, SplitLine } from '../types';
+import { DEFAULT_ACCOUNT_ID, DEFAULT_CURRENCY } from '../constants';
+import { toCents } from './moneyService';
+import { normalizeTag } from './tagService';
+import { REIMBURSEMENT_STATUSES } from './reimbursementService';
+import { validateSplits, primaryCategory } from './splitService';
+
+export type ConflictResolution = 'mine' | 'theirs' | 'both';
+
+export interface ImportIssue {
+  index: number; // position in the imported array, 0-based
+  reason: string;
+}
+
+export interface FieldChange {
+  field: keyof Expense;
+  mine: Expense[keyof Expense];
+  theirs: Expense[keyof Expense];
+}
+
+// Same id on both sides but different content
+export interface ImportConflict {
+  mine: Expense;
+  theirs: Expense;
+  changes: FieldChange[];
+}
+
+export interface ImportPlan {
+  valid: Expense[]; // every record that passed validation
+  added: Expense[]; // ids not present locally
+  unchanged: number; // ids present locally with identical content
+  conflicts: ImportConflict[];
+  invalid: ImportIssue[];
+}
+
+const TYPES: TransactionType[] = ['expense', 'income', 'transfer'];
+
+// Fields compared when the same id exists on both sides, in display order
+export const COMPARED_FIELDS: (keyof Expense)[] = [
+  'date', 'type', 'amount', 'currency', 'category', 'splits', 'accountId', 'toAccountId', 'fee', 'note', 'tags', 'attachments',
+  'reimbursement', 'reimbursedBy', 'recurringId', 'occurrence',
+];
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+// Split lines from a file, amounts converted to cents; null when the shape is wrong
+const toSplitLines = (value: unknown): SplitLine[] | null => {
+  if (!Array.isArray(value)) return null;
+  const lines = value.map(line => {
+    const { category, amount } = (line || {}) as Record<string, unknown>;
+    return typeof category === 'string' && typeof amount === 'number' && Number.isFinite(amount)
+      ? { category, amount: toCents(amount) }
+      : null;
+  });
+  return lines.includes(null) ? null : lines as SplitLine[];
+};
+
+// Check one imported item against the Expense schema. Older backups without
+// type/accountId/currency/note are filled in the same way storageService migrates them.
+// Amounts in files are decimal units and are converted to cents.
+// Returns the normalized record, or the reason it was rejected.
+export const validateRecord = (raw: unknown): Expense | string => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return '不是有效的记录对象';
+  const item = raw as Record<string, unknown>;
+
+  if (typeof item.id !== 'string' || !item.id) return '缺少 id';
+  if (typeof item.amount !== 'number' || !Number.isFinite(item.amount) || toCents(item.amount) <= 0) return '金额无效';
+  if (typeof item.date !== 'number' || !Number.isFinite(item.date) || isNaN(new Date(item.date).getTime())) return '日期无效';
+  if (typeof item.category !== 'string' || !item.category) return '缺少分类';
+
+  const type = item.type === undefined ? 'expense' : item.type;
+  if (!TYPES.includes(type as TransactionType)) return `未知类型 "${String(item.type)}"`;
+  if (item.note !== undefined && typeof item.note !== 'string') return '备注无效';
+  if (!isOptionalString(item.accountId)) return '账户无效';
+  if (item.currency !== undefined && (typeof item.currency !== 'string' || !/^[A-Z]{3}$/.test(item.currency))) return '币种无效';
+  if (type === 'transfer' && (typeof item.toAccountId !== 'string' || !item.toAccountId)) return '转账缺少转入账户';
+  if (!isOptionalString(item.toAccountId)) return '转入账户无效';
+  if (item.fee !== undefined && (typeof item.fee !== 'number' || !Number.isFinite(item.fee) || item.fee < 0)) return '手续费无效';
+  if (item.tags !== undefined && (!Array.isArray(item.tags) || item.tags.some(t => typeof t !== 'string'))) return '标签无效';
+  if (item.reimbursement !== undefined && !REIMBURSEMENT_STATUSES.includes(item.reimbursement as ReimbursementStatus)) return '报销状态无效';
+  if (!isOptionalString(item.reimbursedBy)) return '报销收入无效';
+  if (item.attachments !== undefined && (!Array.isArray(item.attachments) || item.attachments.some(a => typeof a !== 'string'))) return '票据照片无效';
+  const splits = item.splits === undefined ? undefined : toSplitLines(item.splits);
+  if (splits === null || (splits && (type === 'transfer' || validateSplits(splits, toCents(item.amount)) !== null))) return '拆分无效';
+  if (!isOptionalString(item.recurringId) || !isOptionalString(item.occurrence)) return '周期信息无效';
+
+  const record: Expense = {
+    id: item.id,
+    amount: toCents(item.amount),
+    currency: (item.currency as string | undefined) || DEFAULT_CURRENCY,
+    type: type as TransactionType,
+    category: item.category,
+    note: (item.note as string | undefined) || '',
+    date: item.date,
+    accountId: (item.accountId as string | undefined) || DEFAULT_ACCOUNT_ID,
+  };
+  if (splits) {
+    record.splits = splits;
+    record.category = primaryCategory(splits);
+  }
+  if (item.toAccountId) record.toAccountId = item.toAccountId as string;
+  if (item.fee) record.fee = toCents(item.fee as number);
+  const tags = Array.from(new Set(((item.tags as string[] | undefined) || []).map(normalizeTag).filter(Boolean)));
+  if (tags.length > 0) record.tags = tags;
+  // Photo ids only resolve on the device that took them; missing photos show as placeholders
+  if (item.attachments && (item.attachments as string[]).length > 0) record.attachments = item.attachments as string[];
+  // Only expenses can be reimbursed, and only reimbursed ones link an income
+  if (type === 'expense' && item.reimbursement) {
+    record.reimbursement = item.reimbursement as ReimbursementStatus;
+    if (item.reimbursement === 'reimbursed' && item.reimbursedBy) record.reimbursedBy = item.reimbursedBy as string;
+  }
+  if (item.recurringId) record.recurringId = item.recurringId as string;
+  if (item.occurrence) record.occurrence = item.occurrence as string;
+  return record;
+};
+
+// Tag and split lists compare by content; missing values equal empty ones
+const comparable = (value: Expense[keyof Expense]) => Array.isArray(value) ? JSON.stringify(value) : value ?? '';
+
+export const diffRecords = (mine: Expense, theirs: Expense): FieldChange[] =>
+  COMPARED_FIELDS
+    .filter(field => comparable(mine[field]) !== comparable(theirs[field]))
+    .map(field => ({ field, mine: mine[field], theirs: theirs[field] }));
+
+// Validate every imported item and sort the valid ones into new, identical and conflicting
+export const analyzeImport = (data: unknown[], expenses: Expense[]): ImportPlan => {
+  const existing = new Map(expenses.map(e => [e.id, e]));
+  const seen = new Set<string>();
+  const plan: ImportPlan = { valid: [], added: [], unchanged: 0, conflicts: [], invalid: [] };
+
+  data.forEach((raw, index) => {
+    const result = validateRecord(raw);
+    if (typeof result === 'string') {
+      plan.invalid.push({ index, reason: result });
+      return;
+    }
+    if (seen.has(result.id)) {
+      plan.invalid.push({ index, reason: `id "${result.id}" 在文件中重复` });
+      return;
+    }
+    seen.add(result.id);
+    plan.valid.push(result);
+
+    const mine = existing.get(result.id);
+    if (!mine) {
+      plan.added.push(result);
+      return;
+    }
+    const changes = diffRecords(mine, result);
+    if (changes.length === 0) plan.unchanged++;
+    else plan.conflicts.push({ mine, theirs: result, changes });
+  });
+
+  return plan;
+};
+
+// Merge into the local records, resolving each conflict by id (default: keep mine)
+export const mergeImport = (
+  expenses: Expense[],
+  plan: ImportPlan,
+  resolutions: Record<string, ConflictResolution>
+) => {
+  const replacements = new Map<string, Expense>();
+  const extra: Expense[] = [...plan.added];
+  const now = Date.now();
+
+  plan.conflicts.forEach((conflict, i) => {
+    const resolution = resolutions[conflict.mine.id] || 'mine';
+    if (resolution === 'theirs') {
+      replacements.set(conflict.mine.id, conflict.theirs);
+    } else if (resolution === 'both') {
+      // The imported copy becomes an independent one-off record
+      const { recurringId, occurrence, ...copy } = conflict.theirs;
+      extra.push({ ...copy, id: `${now}_${i}` });
+    }
+  });
+
+  return [...expenses.map(e => replacements.get(e.id) || e), ...extra].sort((a, b) => b.date - a.date);
+};
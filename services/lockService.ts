@@ -0,0 +1,53 @@
+import { LockSettings, LockoutState } from '../types';
+import { bytesToBase64, base64ToBytes } from './fileService';
+import { bytesEqual } from './cryptoService';
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 6;
+
+// Failed attempts allowed before the PIN pad locks out
+export const MAX_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+
+export const IDLE_OPTIONS = [1, 5, 15, 0]; // minutes, 0 = only when the app goes to background
+
+// A short PIN is easy to brute-force offline; the salted PBKDF2 hash only stops it
+// from being read directly out of storage.
+const PIN_ITERATIONS = 200000;
+
+const derivePinHash = async (pin: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations: PIN_ITERATIONS },
+    material,
+    256
+  );
+  return new Uint8Array(bits);
+};
+
+export const isValidPin = (pin: string) =>
+  new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+
+// New hash with a fresh salt, ready to merge into LockSettings
+export const hashPin = async (pin: string): Promise<Pick<LockSettings, 'pinHash' | 'salt'>> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { pinHash: bytesToBase64(await derivePinHash(pin, salt)), salt: bytesToBase64(salt) };
+};
+
+export const verifyPin = async (pin: string, settings: LockSettings) => {
+  if (!settings.pinHash) return true;
+  const hash = await derivePinHash(pin, base64ToBytes(settings.salt));
+  return bytesEqual(hash, base64ToBytes(settings.pinHash));
+};
+
+// After MAX_ATTEMPTS failures each further failure locks the pad,
+// starting at 30 seconds and doubling up to an hour
+export const registerFailure = (state: LockoutState, now: number): LockoutState => {
+  const failures = state.failures + 1;
+  if (failures < MAX_ATTEMPTS) return { failures, lockedUntil: 0 };
+  const delay = Math.min(BASE_LOCKOUT_MS * 2 ** (failures - MAX_ATTEMPTS), MAX_LOCKOUT_MS);
+  return { failures, lockedUntil: now + delay };
+};
+
+export const getRemainingLockout = (state: LockoutState, now: number) => Math.max(0, state.lockedUntil - now);
@@ -0,0 +1,37 @@
+// Amounts are stored and summed as integer hundredths of the currency unit (cents, fen),
+// so totals stay exact; decimals only appear when parsing input and formatting output.
+
+const MONEY_PATTERN = /^(-)?(\d*)(?:\.(\d{0,2}))?$/;
+
+// Cents from typed text like "12", "12.5" or "-0.07". Null when the text is not a number
+// or has more than two decimal places.
+export const parseMoney = (text: string): number | null => {
+  const match = MONEY_PATTERN.exec(text.trim());
+  if (!match || (!match[2] && !match[3])) return null;
+  const cents = Number(match[2] || '0') * 100 + Number((match[3] || '').padEnd(2, '0'));
+  if (!Number.isSafeInteger(cents)) return null;
+  return match[1] && cents !== 0 ? -cents : cents;
+};
+
+// Cents from a decimal amount, e.g. from an imported file or a record stored before
+// amounts were kept in cents. toPrecision absorbs float noise such as 1.005 * 100 = 100.4999...
+export const toCents = (value: number) => Math.round(Number((value * 100).toPrecision(12)));
+
+// Decimal units for charts and exported files
+export const fromCents = (cents: number) => cents / 100;
+
+export const sumMoney = (values: number[]) => values.reduce((sum, value) => sum + value, 0);
+
+// Cents times a factor such as an exchange rate, rounded back to whole cents
+export const scaleMoney = (cents: number, factor: number) => Math.round(cents * factor);
+
+// "1234.50", "-0.07"; built from the integer so no float rounding is involved
+export const formatCents = (cents: number) => {
+  const abs = Math.abs(cents);
+  const fraction = String(abs % 100).padStart(2, '0');
+  return `${cents < 0 ? '-' : ''}${Math.floor(abs / 100)}.${fraction}`;
+};
+
+// Share of `part` in `total` as a percentage rounded to one decimal, 0 for an empty total
+export const percentOf = (part: number, total: number) =>
+  total === 0 ? 0 : Math.round((part * 1000) / total) / 10;
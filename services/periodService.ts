@@ -0,0 +1,169 @@
+import { PeriodSettings } from '../types';
+import { toDateKey, parseDateKey, endOfDay, getDaysInMonth } from './dateService';
+import { percentOf } from './moneyService';
+
+// Periods for the list, statistics and budgets: the fixed ranges anchored on a date, or
+// any start/end range, and the period each one is compared against. Months and years
+// begin on the configured month start day, weeks on the configured weekday.
+
+export type TimeRange = 'day' | 'week' | 'month' | 'year' | 'custom';
+export type CompareMode = 'none' | 'previous' | 'lastYear';
+
+export const COMPARE_MODE_LABELS: Record<CompareMode, string> = {
+  none: '不对比',
+  previous: '环比上期',
+  lastYear: '同比去年',
+};
+
+export interface Period {
+  start: Date; // midnight of the first day
+  end: Date; // last millisecond of the last day
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const WEEKDAY_LABELS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+// Longer custom ranges are charted per month instead of per day
+const MAX_DAILY_BUCKETS = 62;
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Same day one year earlier, Feb 29 becoming Feb 28
+const previousYear = (date: Date) => {
+  const year = date.getFullYear() - 1;
+  return new Date(year, date.getMonth(), Math.min(date.getDate(), getDaysInMonth(year, date.getMonth())));
+};
+
+// Number of calendar days in the period, unaffected by daylight saving changes
+export const countDays = (period: Period) =>
+  Math.round((parseDateKey(toDateKey(period.end)).getTime() - period.start.getTime()) / DAY_MS) + 1;
+
+// The month a date is booked in: with months starting on the 15th, Nov 3 still belongs
+// to October. Months are named after the calendar month they start in.
+export const getMonthOf = (date: Date, monthStartDay: number) =>
+  date.getDate() >= monthStartDay
+    ? { year: date.getFullYear(), month: date.getMonth() }
+    : date.getMonth() === 0
+      ? { year: date.getFullYear() - 1, month: 11 }
+      : { year: date.getFullYear(), month: date.getMonth() - 1 };
+
+// First day of a booking month; the start day is at most 28 so it exists in every month
+const monthStart = (year: number, month: number, monthStartDay: number) => new Date(year, month, monthStartDay);
+
+export const getPeriod = (range: Exclude<TimeRange, 'custom'>, anchor: Date, settings: PeriodSettings): Period => {
+  const target = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+  const { monthStartDay, weekStartDay } = settings;
+  switch (range) {
+    case 'day':
+      return { start: target, end: endOfDay(target) };
+    case 'week': {
+      const start = addDays(target, -((target.getDay() - weekStartDay + 7) % 7));
+      return { start, end: endOfDay(addDays(start, 6)) };
+    }
+    case 'month': {
+      const { year, month } = getMonthOf(target, monthStartDay);
+      return {
+        start: monthStart(year, month, monthStartDay),
+        end: endOfDay(addDays(monthStart(year, month + 1, monthStartDay), -1)),
+      };
+    }
+    case 'year': {
+      const { year } = getMonthOf(target, monthStartDay);
+      return {
+        start: monthStart(year, 0, monthStartDay),
+        end: endOfDay(addDays(monthStart(year + 1, 0, monthStartDay), -1)),
+      };
+    }
+  }
+};
+
+// Inclusive YYYY-MM-DD keys, swapped when given in the wrong order
+export const getCustomPeriod = (startKey: string, endKey: string): Period => {
+  const [first, last] = startKey <= endKey ? [startKey, endKey] : [endKey, startKey];
+  return { start: parseDateKey(first), end: endOfDay(parseDateKey(last)) };
+};
+
+// The period `direction` steps before or after: one day/week/month/year, or a custom
+// range of the same length right next to it
+export const shiftPeriod = (range: TimeRange, period: Period, direction: -1 | 1, settings: PeriodSettings): Period => {
+  const { start } = period;
+  switch (range) {
+    case 'day':
+    case 'week':
+    case 'custom': {
+      const days = countDays(period) * direction;
+      return { start: addDays(start, days), end: endOfDay(addDays(period.end, days)) };
+    }
+    case 'month':
+      return getPeriod('month', new Date(start.getFullYear(), start.getMonth() + direction, start.getDate()), settings);
+    case 'year':
+      return getPeriod('year', new Date(start.getFullYear() + direction, start.getMonth(), start.getDate()), settings);
+  }
+};
+
+export const getComparisonPeriod = (range: TimeRange, period: Period, mode: CompareMode, settings: PeriodSettings): Period | null => {
+  if (mode === 'none') return null;
+  if (mode === 'previous') return shiftPeriod(range, period, -1, settings);
+  // Whole months and years stay whole, other ranges keep their dates
+  if (range === 'month' || range === 'year') return getPeriod(range, previousYear(period.start), settings);
+  return { start: previousYear(period.start), end: endOfDay(previousYear(period.end)) };
+};
+
+export const formatPeriod = (range: TimeRange, period: Period) => {
+  const { start, end } = period;
+  switch (range) {
+    case 'day':
+      return `${start.getFullYear()}年${start.getMonth() + 1}月${start.getDate()}日`;
+    case 'week':
+      return `${start.getMonth() + 1}月${start.getDate()}日 - ${end.getMonth() + 1}月${end.getDate()}日`;
+    case 'month':
+      return start.getDate() === 1
+        ? `${start.getFullYear()}年${start.getMonth() + 1}月`
+        : `${start.getFullYear()}年${start.getMonth() + 1}月${start.getDate()}日 - ${end.getMonth() + 1}月${end.getDate()}日`;
+    case 'year':
+      return start.getDate() === 1 ? `${start.getFullYear()}年` : `${start.getFullYear()}年 (1月${start.getDate()}日起)`;
+    case 'custom':
+      return `${toDateKey(start).replace(/-/g, '/')} - ${toDateKey(end).replace(/-/g, '/')}`;
+  }
+};
+
+export type BucketUnit = 'day' | 'month';
+
+// Trend chart granularity: months for years and long custom ranges, days otherwise
+export const getBucketUnit = (range: TimeRange, period: Period): BucketUnit =>
+  range === 'year' || (range === 'custom' && countDays(period) > MAX_DAILY_BUCKETS) ? 'month' : 'day';
+
+// Position of a date within the period's buckets, so two periods line up bucket by bucket.
+// Month buckets are booking months.
+export const getBucketIndex = (date: Date, period: Period, unit: BucketUnit, settings: PeriodSettings) => {
+  if (unit === 'day') return Math.round((parseDateKey(toDateKey(date)).getTime() - period.start.getTime()) / DAY_MS);
+  const first = getMonthOf(period.start, settings.monthStartDay);
+  const current = getMonthOf(date, settings.monthStartDay);
+  return (current.year - first.year) * 12 + current.month - first.month;
+};
+
+export const getBucketLabels = (range: TimeRange, period: Period, unit: BucketUnit, settings: PeriodSettings) => {
+  const { start, end } = period;
+  if (unit === 'month') {
+    const first = getMonthOf(start, settings.monthStartDay);
+    const count = getBucketIndex(end, period, 'month', settings) + 1;
+    const sameYear = first.year === getMonthOf(end, settings.monthStartDay).year;
+    return Array.from({ length: count }, (_, i) => {
+      const d = new Date(first.year, first.month + i, 1);
+      return sameYear ? `${d.getMonth() + 1}月` : `${String(d.getFullYear()).slice(2)}/${d.getMonth() + 1}`;
+    });
+  }
+  return Array.from({ length: countDays(period) }, (_, i) => {
+    const d = addDays(start, i);
+    return range === 'week' ? WEEKDAY_LABELS[d.getDay()] : `${d.getMonth() + 1}/${d.getDate()}`;
+  });
+};
+
+export interface Change {
+  amount: number; // cents, current minus previous
+  percent: number | null; // null when there was nothing to compare with
+}
+
+export const computeChange = (current: number, previous: number): Change => ({
+  amount: current - previous,
+  percent: previous === 0 ? null : percentOf(current - previous, previous),
+});
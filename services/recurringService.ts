@@ -0,0 +1,114 @@
+import { Expense, RecurringRule, RecurrenceFrequency } from '../types';
+import { toDateKey, endOfDay, getDaysInMonth } from './dateService';
+
+export const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: '每天',
+  weekly: '每周',
+  monthly: '每月',
+  yearly: '每年',
+};
+
+const WEEKDAY_LABELS = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+// Date of the n-th period after the rule's start, keeping the start's time of day
+const nthDate = (rule: RecurringRule, start: Date, n: number) => {
+  const d = new Date(start);
+  switch (rule.frequency) {
+    case 'daily':
+      d.setDate(start.getDate() + n);
+      break;
+    case 'weekly':
+      d.setDate(start.getDate() + n * 7);
+      break;
+    case 'monthly': {
+      d.setDate(1);
+      d.setMonth(start.getMonth() + n);
+      const day = rule.dayOfMonth || start.getDate();
+      d.setDate(Math.min(day, getDaysInMonth(d.getFullYear(), d.getMonth())));
+      break;
+    }
+    case 'yearly':
+      d.setDate(1);
+      d.setFullYear(start.getFullYear() + n);
+      // Feb 29 falls back to Feb 28 in non-leap years
+      d.setDate(Math.min(start.getDate(), getDaysInMonth(d.getFullYear(), d.getMonth())));
+      break;
+  }
+  return d;
+};
+
+// All occurrence dates of a rule up to `until`, honouring end date and count
+export const getOccurrenceDates = (rule: RecurringRule, until: Date): Date[] => {
+  const start = new Date(rule.startDate);
+  const limit = rule.endDate ? Math.min(until.getTime(), rule.endDate) : until.getTime();
+  const dates: Date[] = [];
+
+  for (let n = 0; ; n++) {
+    if (rule.count && dates.length >= rule.count) break;
+    const d = nthDate(rule, start, n);
+    if (d.getTime() > limit) break;
+    // A monthly day-of-month before the start day only applies from the next month
+    if (d.getTime() >= start.getTime()) dates.push(d);
+  }
+  return dates;
+};
+
+const occurrenceId = (ruleId: string, key: string) => `${ruleId}_${key}`;
+
+// Create records for every due occurrence that was neither generated nor skipped yet
+export const materializeRecurring = (rules: RecurringRule[], expenses: Expense[], now: Date): Expense[] => {
+  // Match on rule + occurrence rather than id, so edited occurrences are not regenerated
+  const existing = new Set(
+    expenses.filter(e => e.recurringId && e.occurrence).map(e => occurrenceId(e.recurringId!, e.occurrence!))
+  );
+  const generated: Expense[] = [];
+
+  rules.forEach(rule => {
+    getOccurrenceDates(rule, endOfDay(now)).forEach(date => {
+      const key = toDateKey(date);
+      const id = occurrenceId(rule.id, key);
+      if (existing.has(id) || rule.skipped.includes(key)) return;
+      generated.push({
+        id,
+        amount: rule.amount,
+        currency: rule.currency,
+        type: rule.type,
+        category: rule.category,
+        splits: rule.splits,
+        note: rule.note,
+        date: date.getTime(),
+        accountId: rule.accountId,
+        toAccountId: rule.toAccountId,
+        fee: rule.fee,
+        tags: rule.tags,
+        recurringId: rule.id,
+        occurrence: key,
+      });
+      existing.add(id);
+    });
+  });
+
+  return generated;
+};
+
+// Next occurrence after `now` that has not been skipped, or null when the rule has ended
+export const getNextOccurrence = (rule: RecurringRule, now: Date): Date | null => {
+  // Look far enough ahead to cover a yearly rule with a few skipped years
+  const horizon = new Date(now);
+  horizon.setFullYear(horizon.getFullYear() + 5);
+  const next = getOccurrenceDates(rule, horizon).find(d =>
+    d.getTime() > endOfDay(now).getTime() && !rule.skipped.includes(toDateKey(d))
+  );
+  return next || null;
+};
+
+export const describeRule = (rule: RecurringRule) => {
+  const start = new Date(rule.startDate);
+  let text = FREQUENCY_LABELS[rule.frequency];
+  if (rule.frequency === 'weekly') text += WEEKDAY_LABELS[start.getDay()];
+  if (rule.frequency === 'monthly') text += `${rule.dayOfMonth || start.getDate()}日`;
+  if (rule.frequency === 'yearly') text += `${start.getMonth() + 1}月${start.getDate()}日`;
+  if (rule.endDate) text += `，至${toDateKey(new Date(rule.endDate))}`;
+  if (rule.count) text += `，共${rule.count}次`;
+  return text;
+};
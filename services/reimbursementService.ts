@@ -0,0 +1,73 @@
+import { Expense, ReimbursementStatus } from '../types';
+import { sumMoney, scaleMoney } from './moneyService';
+import { fitSplits } from './splitService';
+
+export const REIMBURSEMENT_STATUS_LABELS: Record<ReimbursementStatus, string> = {
+  pending: '待提交',
+  submitted: '已提交',
+  reimbursed: '已报销',
+};
+
+export const REIMBURSEMENT_STATUSES = Object.keys(REIMBURSEMENT_STATUS_LABELS) as ReimbursementStatus[];
+
+// Amount paid back through each income record, by income id
+export const getReimbursedAmounts = (expenses: Expense[]) => {
+  const amounts = new Map<string, number>();
+  expenses.forEach(e => {
+    if (e.reimbursement === 'reimbursed' && e.reimbursedBy) {
+      amounts.set(e.reimbursedBy, (amounts.get(e.reimbursedBy) || 0) + e.amount);
+    }
+  });
+  return amounts;
+};
+
+// Records that count towards personal income and spending. Reimbursed expenses are left out,
+// and the income that paid them back only counts with what is left of it, e.g. a salary that
+// also carried an expense claim. Balances still use every record.
+export const filterPersonal = (expenses: Expense[]) => {
+  const reimbursed = getReimbursedAmounts(expenses);
+  const personal: Expense[] = [];
+  expenses.forEach(e => {
+    if (e.reimbursement === 'reimbursed') return;
+    const repaid = reimbursed.get(e.id);
+    if (!repaid) {
+      personal.push(e);
+      return;
+    }
+    const amount = e.amount - Math.min(repaid, e.amount);
+    if (amount <= 0) return;
+    personal.push({
+      ...e,
+      amount,
+      splits: e.splits && fitSplits(e.splits.map(line => ({ ...line, amount: scaleMoney(line.amount, amount / e.amount) })), amount),
+    });
+  });
+  return personal;
+};
+
+export interface OutstandingSummary {
+  status: ReimbursementStatus;
+  count: number;
+  amount: number; // cents
+}
+
+// Reimbursable expenses still waiting for their money, per status
+export const summarizeOutstanding = (expenses: Expense[]): OutstandingSummary[] =>
+  (['pending', 'submitted'] as ReimbursementStatus[]).map(status => {
+    const items = expenses.filter(e => e.type === 'expense' && e.reimbursement === status);
+    return { status, count: items.length, amount: sumMoney(items.map(e => e.amount)) };
+  });
+
+// Mark expenses as paid back by `incomeId` (null when there is no matching income record)
+export const markReimbursed = (expenses: Expense[], expenseIds: string[], incomeId: string | null) => {
+  const ids = new Set(expenseIds);
+  return expenses.map(e => ids.has(e.id)
+    ? { ...e, reimbursement: 'reimbursed' as const, reimbursedBy: incomeId || undefined }
+    : e);
+};
+
+// Expenses paid back by a deleted income record go back to waiting
+export const unlinkIncome = (expenses: Expense[], incomeId: string) =>
+  expenses.map(e => e.reimbursedBy === incomeId
+    ? { ...e, reimbursement: 'submitted' as const, reimbursedBy: undefined }
+    : e);
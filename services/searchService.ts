@@ -0,0 +1,76 @@
+import { Expense, TransactionType, CategoryDef, Account, CurrencySettings } from '../types';
+import { getCategoryConfig, getAccountName } from '../constants';
+import { parseDateKey, endOfDay } from './dateService';
+import { parseMoney, formatCents } from './moneyService';
+import { getCategoryShares } from './splitService';
+import { toBaseAmount } from './currencyService';
+
+export interface SearchFilters {
+  query: string;
+  startDate: string; // YYYY-MM-DD, empty = unbounded
+  endDate: string;
+  types: TransactionType[]; // empty = all types
+  categoryIds: string[]; // empty = all categories
+  minAmount: string; // in the base currency
+  maxAmount: string;
+}
+
+export const EMPTY_FILTERS: SearchFilters = {
+  query: '',
+  startDate: '',
+  endDate: '',
+  types: [],
+  categoryIds: [],
+  minAmount: '',
+  maxAmount: '',
+};
+
+export const hasActiveFilters = (filters: SearchFilters) =>
+  !!(filters.query.trim() || filters.startDate || filters.endDate || filters.types.length ||
+    filters.categoryIds.length || filters.minAmount || filters.maxAmount);
+
+// Every whitespace-separated term must match the note, a category label, a tag,
+// an involved account name, or the start of the amount ("128" finds 128.50)
+const matchesQuery = (e: Expense, query: string, categories: CategoryDef[], accounts: Account[]) => {
+  const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+
+  const haystack = [
+    e.note,
+    ...getCategoryShares(e).map(line => getCategoryConfig(line.category, categories).label),
+    getAccountName(e.accountId, accounts),
+    e.toAccountId ? getAccountName(e.toAccountId, accounts) : '',
+    ...(e.tags || []),
+  ].join(' ').toLowerCase();
+  const amountText = formatCents(e.amount);
+
+  return terms.every(term => haystack.includes(term) || amountText.startsWith(term));
+};
+
+export const filterExpenses = (
+  expenses: Expense[],
+  filters: SearchFilters,
+  categories: CategoryDef[],
+  accounts: Account[],
+  currency: CurrencySettings
+) => {
+  const start = filters.startDate ? parseDateKey(filters.startDate).getTime() : -Infinity;
+  const end = filters.endDate ? endOfDay(parseDateKey(filters.endDate)).getTime() : Infinity;
+  const min = parseMoney(filters.minAmount) ?? -Infinity;
+  const max = parseMoney(filters.maxAmount) ?? Infinity;
+  const hasRange = min !== -Infinity || max !== Infinity;
+  // Amounts are compared in the base currency; records without a rate can't be placed in a range
+  const inRange = (e: Expense) => {
+    if (!hasRange) return true;
+    const amount = toBaseAmount(e, currency);
+    return amount !== null && amount >= min && amount <= max;
+  };
+
+  return expenses.filter(e =>
+    e.date >= start && e.date <= end &&
+    inRange(e) &&
+    (filters.types.length === 0 || filters.types.includes(e.type)) &&
+    (filters.categoryIds.length === 0 || getCategoryShares(e).some(line => filters.categoryIds.includes(line.category))) &&
+    matchesQuery(e, filters.query, categories, accounts)
+  );
+};
@@ -0,0 +1,36 @@
+import { Expense, SplitLine, CategoryDef } from '../types';
+import { getCategoryConfig } from '../constants';
+import { formatCents, sumMoney } from './moneyService';
+
+// Amount per category of one record: its split lines, or the whole amount in its category
+export const getCategoryShares = (expense: Expense): SplitLine[] =>
+  expense.splits && expense.splits.length > 0
+    ? expense.splits
+    : [{ category: expense.category, amount: expense.amount }];
+
+// Category the record is filed under: the one with the largest line
+export const primaryCategory = (splits: SplitLine[]) =>
+  splits.reduce((best, line) => line.amount > best.amount ? line : best).category;
+
+// Reason the lines can't be saved for `total`, or null when they add up
+export const validateSplits = (splits: SplitLine[], total: number): string | null => {
+  if (splits.length < 2) return '至少需要两个分类';
+  if (splits.some(line => !line.category)) return '请选择分类';
+  if (splits.some(line => !Number.isSafeInteger(line.amount) || line.amount <= 0)) return '拆分金额无效';
+  if (new Set(splits.map(line => line.category)).size !== splits.length) return '分类不能重复';
+  if (sumMoney(splits.map(line => line.amount)) !== total) return '拆分金额之和须等于总额';
+  return null;
+};
+
+// Lines converted one by one no longer add up exactly; the rounding leftover goes to the
+// largest line so they match the converted total again
+export const fitSplits = (splits: SplitLine[], total: number): SplitLine[] => {
+  const fitted = splits.map(line => ({ ...line }));
+  const largest = fitted.reduce((best, line, i) => line.amount > fitted[best].amount ? i : best, 0);
+  fitted[largest].amount += total - sumMoney(fitted.map(line => line.amount));
+  return fitted;
+};
+
+// "餐饮 12.00 / 居住 30.00", for exports and the import review
+export const describeSplits = (splits: SplitLine[], categories: CategoryDef[]) =>
+  splits.map(line => `${getCategoryConfig(line.category, categories).label} ${formatCents(line.amount)}`).join(' / ');
@@ -1,28 +1,341 @@
-import { Expense } from '../types';
+import { Expense, Budget, CategoryDef, RecurringRule, Account, BackupSettings, LockSettings, LockoutState, CurrencySettings, PeriodSettings } from '../types';
+import { CATEGORIES, DEFAULT_ACCOUNTS, DEFAULT_ACCOUNT_ID, DEFAULT_CURRENCY } from '../constants';
+import { runTransaction, EXPENSE_STORE, META_STORE } from './db';
+import { toCents } from './moneyService';
 
+// Records lived under this localStorage key before moving to IndexedDB
 const STORAGE_KEY = 'simple_bookkeeping_data_v1';
+const RECORD_VERSION_KEY = 'recordVersion';
+const BUDGET_KEY = 'simple_bookkeeping_budgets_v2';
+const CATEGORY_KEY = 'simple_bookkeeping_categories_v1';
+const RECURRING_KEY = 'simple_bookkeeping_recurring_v2';
+const ACCOUNT_KEY = 'simple_bookkeeping_accounts_v2';
+// Same data with decimal amounts, from before amounts were stored in cents
+const LEGACY_BUDGET_KEY = 'simple_bookkeeping_budgets_v1';
+const LEGACY_RECURRING_KEY = 'simple_bookkeeping_recurring_v1';
+const LEGACY_ACCOUNT_KEY = 'simple_bookkeeping_accounts_v1';
+const BACKUP_SETTINGS_KEY = 'simple_bookkeeping_backup_settings_v1';
+const LOCK_KEY = 'simple_bookkeeping_lock_v1';
+const LOCKOUT_KEY = 'simple_bookkeeping_lockout_v1';
+const CURRENCY_KEY = 'simple_bookkeeping_currency_v1';
+const PERIOD_KEY = 'simple_bookkeeping_period_v1';
 
-export const getExpenses = (): Expense[] => {
+const DEFAULT_BACKUP_SETTINGS: BackupSettings = { enabled: true, keep: 7, includeAttachments: false };
+const DEFAULT_LOCK_SETTINGS: LockSettings = { pinHash: null, salt: '', mode: 'full', idleMinutes: 5 };
+const DEFAULT_CURRENCY_SETTINGS: CurrencySettings = { baseCurrency: DEFAULT_CURRENCY, rates: [] };
+const DEFAULT_PERIOD_SETTINGS: PeriodSettings = { monthStartDay: 1, weekStartDay: 1 };
+
+// Ordered record migrations: entry i upgrades a stored record from version i to i + 1.
+// Only ever append; the stored record version says how many have been applied.
+const RECORD_MIGRATIONS: ((item: any) => any)[] = [
+  // 1: records from before income existed are expenses
+  (item) => ({ ...item, type: item.type || 'expense' }),
+  // 2: records from before accounts existed belong to the default account
+  (item) => ({ ...item, accountId: item.accountId || DEFAULT_ACCOUNT_ID }),
+  // 3: records from before multi-currency support are in the default currency
+  (item) => ({ ...item, currency: item.currency || DEFAULT_CURRENCY }),
+  // 4: decimal amounts become integer cents
+  (item) => ({
+    ...item,
+    amount: toCents(item.amount),
+    ...(item.fee !== undefined && { fee: toCents(item.fee) }),
+  }),
+];
+
+export const RECORD_VERSION = RECORD_MIGRATIONS.length;
+
+// First record version with amounts in cents. Backups written before it also hold
+// budgets, rules and accounts with decimal amounts.
+export const CENTS_RECORD_VERSION = 4;
+
+export const budgetToCents = (budget: any): Budget => ({ ...budget, amount: toCents(budget.amount) });
+
+export const ruleToCents = (rule: any): RecurringRule => ({
+  ...rule,
+  amount: toCents(rule.amount),
+  ...(rule.fee !== undefined && { fee: toCents(rule.fee) }),
+});
+
+export const accountToCents = (account: any): Account => ({ ...account, openingBalance: toCents(account.openingBalance) });
+
+// Parsed list under `key`, or the list under `legacyKey` upgraded when only the old key exists.
+// The legacy key is removed by the next save.
+const readVersioned = (key: string, legacyKey: string, upgrade: (item: any) => any): any[] | null => {
+  const data = localStorage.getItem(key);
+  if (data) return JSON.parse(data);
+  const legacy = localStorage.getItem(legacyKey);
+  return legacy ? JSON.parse(legacy).map(upgrade) : null;
+};
+
+const writeVersioned = (key: string, legacyKey: string, items: unknown[]) => {
+  localStorage.setItem(key, JSON.stringify(items));
+  localStorage.removeItem(legacyKey);
+};
+
+export const migrateRecords = (items: any[], fromVersion: number): Expense[] =>
+  RECORD_MIGRATIONS.slice(fromVersion).reduce((list, migrate) => list.map(migrate), items);
+
+type SaveErrorListener = (message: string) => void;
+const saveErrorListeners = new Set<SaveErrorListener>();
+
+// Lets the UI surface failed writes instead of losing them in the console
+export const onSaveError = (listener: SaveErrorListener) => {
+  saveErrorListeners.add(listener);
+  return () => { saveErrorListeners.delete(listener); };
+};
+
+const reportSaveError = (what: string, e: unknown) => {
+  console.error(`Failed to save ${what}`, e);
+  const quota = e instanceof DOMException && e.name === 'QuotaExceededError';
+  const message = quota ? '存储空间不足' : (e as Error)?.message || String(e);
+  saveErrorListeners.forEach(listener => listener(message));
+};
+
+// One-time move of the records kept in localStorage before IndexedDB was used.
+// The old key is only removed once the records are committed to IndexedDB.
+const importLegacyExpenses = async () => {
+  const data = localStorage.getItem(STORAGE_KEY);
+  if (data === null) return;
+  const records = migrateRecords(JSON.parse(data), 0);
+  await runTransaction([EXPENSE_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(EXPENSE_STORE);
+    records.forEach(r => store.put(r));
+  });
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const loadExpenses = async (): Promise<Expense[]> => {
+  await importLegacyExpenses();
+
+  const [recordsRequest, versionRequest] = await runTransaction(
+    [EXPENSE_STORE, META_STORE],
+    'readonly',
+    tx => [
+      tx.objectStore(EXPENSE_STORE).getAll(),
+      tx.objectStore(META_STORE).get(RECORD_VERSION_KEY),
+    ] as const
+  );
+  // A store without a version was only ever written by the current code
+  const version: number = versionRequest.result ?? RECORD_VERSION;
+  if (version >= RECORD_VERSION) {
+    if (versionRequest.result === undefined) {
+      await runTransaction([META_STORE], 'readwrite', tx => {
+        tx.objectStore(META_STORE).put(RECORD_VERSION, RECORD_VERSION_KEY);
+      });
+    }
+    return recordsRequest.result;
+  }
+
+  const migrated = migrateRecords(recordsRequest.result, version);
+  await runTransaction([EXPENSE_STORE, META_STORE], 'readwrite', tx => {
+    const store = tx.objectStore(EXPENSE_STORE);
+    migrated.forEach(r => store.put(r));
+    tx.objectStore(META_STORE).put(RECORD_VERSION, RECORD_VERSION_KEY);
+  });
+  return migrated;
+};
+
+// Write only the records that differ between two snapshots of the list; records are
+// replaced immutably, so a new object reference means the record changed.
+// Without a previous snapshot (e.g. after a failed save) the whole store is rewritten.
+// Resolves to false when the write failed.
+export const saveExpenseChanges = async (prev: Expense[] | null, next: Expense[]) => {
   try {
-    const data = localStorage.getItem(STORAGE_KEY);
-    if (!data) return [];
-    
-    const parsed = JSON.parse(data);
-    // Migration: Add 'type' = 'expense' to old records that don't have it
-    return parsed.map((item: any) => ({
-      ...item,
-      type: item.type || 'expense'
+    if (prev === null) {
+      await runTransaction([EXPENSE_STORE], 'readwrite', tx => {
+        const store = tx.objectStore(EXPENSE_STORE);
+        store.clear();
+        next.forEach(e => store.put(e));
+      });
+      return true;
+    }
+
+    const prevById = new Map(prev.map(e => [e.id, e]));
+    const nextIds = new Set(next.map(e => e.id));
+    const changed = next.filter(e => prevById.get(e.id) !== e);
+    const removed = prev.filter(e => !nextIds.has(e.id));
+    if (changed.length === 0 && removed.length === 0) return true;
+
+    await runTransaction([EXPENSE_STORE], 'readwrite', tx => {
+      const store = tx.objectStore(EXPENSE_STORE);
+      changed.forEach(e => store.put(e));
+      removed.forEach(e => store.delete(e.id));
+    });
+    return true;
+  } catch (e) {
+    reportSaveError('expenses', e);
+    return false;
+  }
+};
+
+export const getBudgets = (): Budget[] => {
+  try {
+    return readVersioned(BUDGET_KEY, LEGACY_BUDGET_KEY, budgetToCents) || [];
+  } catch (e) {
+    console.error("Failed to load budgets", e);
+    return [];
+  }
+};
+
+export const saveBudgets = (budgets: Budget[]) => {
+  try {
+    writeVersioned(BUDGET_KEY, LEGACY_BUDGET_KEY, budgets);
+  } catch (e) {
+    reportSaveError('budgets', e);
+  }
+};
+
+// Falls back to the built-in categories until the user edits the list
+export const getCategories = (): CategoryDef[] => {
+  try {
+    const data = localStorage.getItem(CATEGORY_KEY);
+    if (!data) return CATEGORIES;
+    return JSON.parse(data);
+  } catch (e) {
+    console.error("Failed to load categories", e);
+    return CATEGORIES;
+  }
+};
+
+export const saveCategories = (categories: CategoryDef[]) => {
+  try {
+    localStorage.setItem(CATEGORY_KEY, JSON.stringify(categories));
+  } catch (e) {
+    reportSaveError('categories', e);
+  }
+};
+
+export const getRecurringRules = (): RecurringRule[] => {
+  try {
+    const rules = readVersioned(RECURRING_KEY, LEGACY_RECURRING_KEY, ruleToCents);
+    if (!rules) return [];
+    return rules.map((rule: any) => ({
+      ...rule,
+      accountId: rule.accountId || DEFAULT_ACCOUNT_ID,
+      currency: rule.currency || DEFAULT_CURRENCY
     }));
   } catch (e) {
-    console.error("Failed to load expenses", e);
+    console.error("Failed to load recurring rules", e);
     return [];
   }
 };
 
-export const saveExpenses = (expenses: Expense[]) => {
+export const saveRecurringRules = (rules: RecurringRule[]) => {
+  try {
+    writeVersioned(RECURRING_KEY, LEGACY_RECURRING_KEY, rules);
+  } catch (e) {
+    reportSaveError('recurring rules', e);
+  }
+};
+
+export const getAccounts = (): Account[] => {
   try {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(expenses));
+    return readVersioned(ACCOUNT_KEY, LEGACY_ACCOUNT_KEY, accountToCents) || DEFAULT_ACCOUNTS;
   } catch (e) {
-    console.error("Failed to save expenses", e);
+    console.error("Failed to load accounts", e);
+    return DEFAULT_ACCOUNTS;
   }
-};
\ No newline at end of file
+};
+
+export const saveAccounts = (accounts: Account[]) => {
+  try {
+    writeVersioned(ACCOUNT_KEY, LEGACY_ACCOUNT_KEY, accounts);
+  } catch (e) {
+    reportSaveError('accounts', e);
+  }
+};
+
+export const getBackupSettings = (): BackupSettings => {
+  try {
+    const data = localStorage.getItem(BACKUP_SETTINGS_KEY);
+    if (!data) return DEFAULT_BACKUP_SETTINGS;
+    return { ...DEFAULT_BACKUP_SETTINGS, ...JSON.parse(data) };
+  } catch (e) {
+    console.error("Failed to load backup settings", e);
+    return DEFAULT_BACKUP_SETTINGS;
+  }
+};
+
+export const saveBackupSettings = (settings: BackupSettings) => {
+  try {
+    localStorage.setItem(BACKUP_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    reportSaveError('backup settings', e);
+  }
+};
+
+export const getLockSettings = (): LockSettings => {
+  try {
+    const data = localStorage.getItem(LOCK_KEY);
+    if (!data) return DEFAULT_LOCK_SETTINGS;
+    return { ...DEFAULT_LOCK_SETTINGS, ...JSON.parse(data) };
+  } catch (e) {
+    console.error("Failed to load lock settings", e);
+    return DEFAULT_LOCK_SETTINGS;
+  }
+};
+
+export const saveLockSettings = (settings: LockSettings) => {
+  try {
+    localStorage.setItem(LOCK_KEY, JSON.stringify(settings));
+  } catch (e) {
+    reportSaveError('lock settings', e);
+  }
+};
+
+export const getLockoutState = (): LockoutState => {
+  try {
+    const data = localStorage.getItem(LOCKOUT_KEY);
+    if (!data) return { failures: 0, lockedUntil: 0 };
+    return JSON.parse(data);
+  } catch (e) {
+    console.error("Failed to load lockout state", e);
+    return { failures: 0, lockedUntil: 0 };
+  }
+};
+
+export const saveLockoutState = (state: LockoutState) => {
+  try {
+    localStorage.setItem(LOCKOUT_KEY, JSON.stringify(state));
+  } catch (e) {
+    reportSaveError('lockout state', e);
+  }
+};
+
+export const getCurrencySettings = (): CurrencySettings => {
+  try {
+    const data = localStorage.getItem(CURRENCY_KEY);
+    if (!data) return DEFAULT_CURRENCY_SETTINGS;
+    return { ...DEFAULT_CURRENCY_SETTINGS, ...JSON.parse(data) };
+  } catch (e) {
+    console.error("Failed to load currency settings", e);
+    return DEFAULT_CURRENCY_SETTINGS;
+  }
+};
+
+export const saveCurrencySettings = (settings: CurrencySettings) => {
+  try {
+    localStorage.setItem(CURRENCY_KEY, JSON.stringify(settings));
+  } catch (e) {
+    reportSaveError('currency settings', e);
+  }
+};
+
+export const getPeriodSettings = (): PeriodSettings => {
+  try {
+    const data = localStorage.getItem(PERIOD_KEY);
+    if (!data) return DEFAULT_PERIOD_SETTINGS;
+    return { ...DEFAULT_PERIOD_SETTINGS, ...JSON.parse(data) };
+  } catch (e) {
+    console.error("Failed to load period settings", e);
+    return DEFAULT_PERIOD_SETTINGS;
+  }
+};
+
+export const savePeriodSettings = (settings: PeriodSettings) => {
+  try {
+    localStorage.setItem(PERIOD_KEY, JSON.stringify(settings));
+  } catch (e) {
+    reportSaveError('period settings', e);
+  }
+};
@@ -0,0 +1,52 @@
+import { Expense, TransactionType } from '../types';
+
+export const MAX_TAG_LENGTH = 20;
+
+// Tags can't contain whitespace, so space-separated lists (search, exports) stay unambiguous.
+// Empty when nothing is left.
+export const normalizeTag = (text: string) => text.replace(/\s+/g, '').slice(0, MAX_TAG_LENGTH);
+
+// Every tag in use, most used first, for autocomplete and filters
+export const collectTags = (expenses: Expense[]) => {
+  const counts = new Map<string, number>();
+  expenses.forEach(e => e.tags?.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([tag]) => tag);
+};
+
+// Known tags containing the typed text, tags starting with it first, minus those already chosen
+export const suggestTags = (allTags: string[], input: string, selected: string[], limit = 8) => {
+  const query = normalizeTag(input).toLowerCase();
+  const candidates = allTags.filter(tag => !selected.includes(tag));
+  if (!query) return candidates.slice(0, limit);
+  const matches = candidates.filter(tag => tag.toLowerCase().includes(query));
+  return [
+    ...matches.filter(tag => tag.toLowerCase().startsWith(query)),
+    ...matches.filter(tag => !tag.toLowerCase().startsWith(query)),
+  ].slice(0, limit);
+};
+
+export interface TagTotal {
+  tag: string | null; // null = records without tags
+  amount: number; // cents
+  count: number;
+}
+
+// Totals per tag for one transaction type, largest first. A record counts towards each
+// of its tags, so the totals can add up to more than the overall total.
+export const computeTagTotals = (expenses: Expense[], type: TransactionType): TagTotal[] => {
+  const totals = new Map<string | null, TagTotal>();
+  const add = (tag: string | null, amount: number) => {
+    const entry = totals.get(tag) || { tag, amount: 0, count: 0 };
+    entry.amount += amount;
+    entry.count++;
+    totals.set(tag, entry);
+  };
+
+  expenses.filter(e => e.type === type).forEach(e => {
+    if (e.tags && e.tags.length > 0) e.tags.forEach(tag => add(tag, e.amount));
+    else add(null, e.amount);
+  });
+  return Array.from(totals.values()).sort((a, b) => b.amount - a.amount);
+};
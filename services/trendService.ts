@@ -0,0 +1,108 @@
+import { Expense, PeriodSettings } from '../types';
+import { toDateKey } from './dateService';
+import { Period, countDays, shiftPeriod, getBucketIndex, getMonthOf } from './periodService';
+
+// Running totals for the line charts in statistics. All amounts are in cents.
+
+export interface CumulativePoint {
+  name: string; // day label, M/D
+  dateKey: string; // YYYY-MM-DD of the day in the charted month
+  current: number | null; // null after today, so the line stops there
+  previous: number;
+  average: number | null; // null when there is no earlier month to average
+}
+
+export interface NetBalancePoint {
+  name: string; // booking month label, YY/M
+  net: number; // income minus expense within the month
+  balance: number; // running total up to and including the month
+}
+
+// Expense total on each day of the period, by day offset
+const dailyExpense = (expenses: Expense[], period: Period, settings: PeriodSettings) => {
+  const days = new Array<number>(countDays(period)).fill(0);
+  expenses.forEach(e => {
+    if (e.type !== 'expense' || e.date < period.start.getTime() || e.date > period.end.getTime()) return;
+    days[getBucketIndex(new Date(e.date), period, 'day', settings)] += e.amount;
+  });
+  return days;
+};
+
+// Running total at each of `length` day offsets; a shorter month stays at its final total
+const accumulate = (days: number[], length: number) => {
+  const result: number[] = [];
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += days[i] || 0;
+    result.push(sum);
+  }
+  return result;
+};
+
+// Spending so far in a booking month, day by day, against the booking month before and the
+// average of the `averageOf` booking months before it. Days are matched by their offset
+// from the month start, so months of different lengths line up on the days they share.
+export const buildCumulativeSpending = (
+  expenses: Expense[],
+  period: Period,
+  settings: PeriodSettings,
+  averageOf: number
+): CumulativePoint[] => {
+  const length = countDays(period);
+  const current = accumulate(dailyExpense(expenses, period, settings), length);
+
+  const earlier: number[][] = [];
+  const firstDate = expenses.reduce((min, e) => Math.min(min, e.date), Infinity);
+  let month = period;
+  for (let i = 0; i < averageOf; i++) {
+    month = shiftPeriod('month', month, -1, settings);
+    // Months before the first record would only drag the average down
+    if (month.end.getTime() < firstDate) break;
+    earlier.push(accumulate(dailyExpense(expenses, month, settings), length));
+  }
+  const previous = earlier[0] || new Array<number>(length).fill(0);
+
+  const todayIndex = getBucketIndex(new Date(), period, 'day', settings);
+  return current.map((total, i) => {
+    const day = new Date(period.start.getFullYear(), period.start.getMonth(), period.start.getDate() + i);
+    return {
+      name: `${day.getMonth() + 1}/${day.getDate()}`,
+      dateKey: toDateKey(day),
+      current: i <= todayIndex ? total : null,
+      previous: previous[i],
+      average: earlier.length > 0 ? Math.round(earlier.reduce((sum, m) => sum + m[i], 0) / earlier.length) : null,
+    };
+  });
+};
+
+// Income minus expense for every booking month from the first record until the current
+// month, with the running balance. Transfers move money between accounts and are left out.
+export const buildNetBalanceHistory = (expenses: Expense[], settings: PeriodSettings): NetBalancePoint[] => {
+  if (expenses.length === 0) return [];
+  const monthIndex = (date: Date) => {
+    const { year, month } = getMonthOf(date, settings.monthStartDay);
+    return year * 12 + month;
+  };
+
+  const nets = new Map<number, number>();
+  let first = monthIndex(new Date());
+  let last = first;
+  expenses.forEach(e => {
+    const index = monthIndex(new Date(e.date));
+    first = Math.min(first, index);
+    last = Math.max(last, index);
+    if (e.type === 'income') nets.set(index, (nets.get(index) || 0) + e.amount);
+    else if (e.type === 'expense') nets.set(index, (nets.get(index) || 0) - e.amount);
+  });
+
+  const points: NetBalancePoint[] = [];
+  let balance = 0;
+  for (let index = first; index <= last; index++) {
+    const net = nets.get(index) || 0;
+    balance += net;
+    const year = Math.floor(index / 12);
+    const month = index % 12;
+    points.push({ name: `${String(year).slice(2)}/${month + 1}`, net, balance });
+  }
+  return points;
+};
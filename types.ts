@@ -1,35 +1,129 @@
-import React from 'react';
-
-export type TransactionType = 'expense' | 'income';
-
-export type CategoryType = 
-  // Expense Categories
-  | 'food' 
-  | 'transport' 
-  | 'shopping' 
-  | 'housing' 
-  | 'entertainment' 
-  | 'medical' 
-  | 'study' 
-  | 'other'
-  // Income Categories
-  | 'salary'
-  | 'bonus'
-  | 'investment'
-  | 'other_income';
+// Transfers move money between accounts and are excluded from income/expense totals
+export type TransactionType = 'expense' | 'income' | 'transfer';
+
+// Category ids are user-defined. Built-in ids ('food', 'salary', 'other', ...)
+// are kept so existing records still resolve to their original category.
+export type CategoryType = string;
+
+// Reimbursable expense: not yet claimed, claimed and waiting, or paid back
+export type ReimbursementStatus = 'pending' | 'submitted' | 'reimbursed';
+
+// All amounts are integer cents (hundredths of the currency unit), see moneyService
+
+// Part of one payment attributed to a category
+export interface SplitLine {
+  category: CategoryType;
+  amount: number; // cents of the record's currency
+}
 
 export interface Expense {
   id: string;
-  amount: number;
+  amount: number; // cents of `currency`
+  currency: string; // ISO 4217 code
   type: TransactionType;
   category: CategoryType;
   note: string;
   date: number; // timestamp
+  splits?: SplitLine[]; // two or more lines adding up to `amount`; `category` is the largest one
+  accountId: string; // source account for transfers
+  toAccountId?: string; // transfer destination
+  fee?: number; // transfer fee, paid from the source account
+  tags?: string[]; // free-form labels across categories, omitted when empty
+  reimbursement?: ReimbursementStatus; // expenses paid on someone else's behalf
+  reimbursedBy?: string; // id of the income record that paid this expense back
+  attachments?: string[]; // ids of receipt photos, see attachmentService
+  recurringId?: string; // rule this record was generated from
+  occurrence?: string; // YYYY-MM-DD of the rule occurrence it stands for
 }
 
 export interface CategoryDef {
   id: CategoryType;
   label: string;
-  icon: React.ReactNode;
+  icon: string; // key of CATEGORY_ICONS
   color: string;
-}
\ No newline at end of file
+  type: TransactionType;
+  archived?: boolean; // hidden when adding records, still used to display old ones
+}
+
+export type BudgetScope = CategoryType | 'total';
+
+export interface Budget {
+  category: BudgetScope; // 'total' = overall monthly budget
+  amount: number; // monthly limit in cents
+  carryOver: boolean; // roll unused budget into the following month
+  startMonth: string; // YYYY-MM, first month the budget applies to
+}
+
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  id: string;
+  type: TransactionType;
+  amount: number;
+  currency: string;
+  category: CategoryType;
+  note: string;
+  accountId: string;
+  toAccountId?: string;
+  fee?: number;
+  tags?: string[];
+  splits?: SplitLine[];
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number; // monthly only, clamped to the month's length
+  startDate: number; // timestamp of the first occurrence
+  endDate?: number; // no occurrences after this timestamp
+  count?: number; // maximum number of occurrences, skipped ones included
+  skipped: string[]; // YYYY-MM-DD keys of occurrences the user skipped
+}
+
+export type AccountKind = 'cash' | 'bank' | 'alipay' | 'wechat' | 'credit';
+
+export interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  openingBalance: number; // cents, balance before the first recorded transaction
+  archived?: boolean;
+}
+
+export interface BackupSettings {
+  enabled: boolean; // take a snapshot on the first launch of each day
+  keep: number; // number of snapshots kept, oldest removed first
+  includeAttachments: boolean; // embed receipt photos in snapshots
+}
+
+export type LockMode = 'full' | 'amounts';
+
+export interface LockSettings {
+  pinHash: string | null; // base64 PBKDF2 hash of the PIN, null = lock disabled
+  salt: string;
+  mode: LockMode; // cover the whole app, or only hide amounts on the list
+  idleMinutes: number; // lock after this long without interaction, 0 = only when backgrounded
+}
+
+// Failed PIN attempts, persisted so restarting the app doesn't reset the lockout
+export interface LockoutState {
+  failures: number;
+  lockedUntil: number; // timestamp, 0 = not locked out
+}
+
+// Manually entered rate: 1 `currency` = `rate` `base`, valid from `date` until a newer entry
+export interface ExchangeRate {
+  id: string;
+  currency: string;
+  base: string;
+  rate: number;
+  date: string; // YYYY-MM-DD
+}
+
+// How months and weeks are cut for the list, statistics and budgets
+export interface PeriodSettings {
+  monthStartDay: number; // 1-28, e.g. 15 = months run from the 15th to the 14th
+  weekStartDay: number; // 0 = Sunday ... 6 = Saturday
+}
+
+export interface CurrencySettings {
+  baseCurrency: string; // totals, budgets and statistics are shown in this currency
+  rates: ExchangeRate[];
+}